@@ -0,0 +1,228 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { resolve } from 'node:path';
+import { build, loadEnv, type Logger, type Plugin, type ResolvedConfig } from 'vite';
+import { checkEntries } from '../src/cms/entries';
+import { createRestSource, LOCAL_CMS_PATH } from '../src/cms/sources';
+import type { CmsSnapshot, ContentSource } from '../src/cms/types';
+import { formatIssues } from '../src/content/validate';
+import { flatten } from '../src/i18n/flatten';
+import { isLocale, locales, type Locale } from '../src/i18n/config';
+import { loadContent } from './content';
+
+const VIRTUAL_ID = 'virtual:nexus-cms';
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+const LOCAL_DIR = resolve(__dirname, '../cms');
+const BASE_MESSAGES = resolve(__dirname, '../src/i18n/messages/en.json');
+
+interface CmsEnv {
+  // Delivery API of the headless CMS; unset, the local cms/ directory is used
+  endpoint?: string;
+  token?: string;
+  // Token the dev server stub requires for drafts; any token works when unset
+  previewToken?: string;
+  // Shared secret publish webhooks are signed with; without it the dev server
+  // accepts unsigned webhooks and `vite preview` accepts none
+  webhookSecret?: string;
+}
+
+const readJson = (file: string): Record<string, unknown> => (existsSync(file) ? JSON.parse(readFileSync(file, 'utf-8')) : {});
+
+// Local filesystem source: cms/<locale>.json holds published entries, and
+// cms/drafts/<locale>.json the drafts layered over them in preview
+export const createFileSource = (dir: string): ContentSource => ({
+  async entries(locale, { preview } = {}) {
+    const published = readJson(resolve(dir, `${locale}.json`));
+    if (!preview) return published;
+    const drafts = readJson(resolve(dir, 'drafts', `${locale}.json`));
+    return { ...published, ...drafts, messages: { ...(published.messages as object), ...(drafts.messages as object) } };
+  },
+});
+
+const fetchAll = async (source: ContentSource) =>
+  Object.fromEntries(await Promise.all(locales.map(async ({ code }) => [code, await source.entries(code)] as const)));
+
+const checkSnapshot = (raw: Record<string, unknown>): CmsSnapshot => {
+  const content = loadContent();
+  const messages = flatten(JSON.parse(readFileSync(BASE_MESSAGES, 'utf-8')));
+  const snapshot: CmsSnapshot = {};
+  const failures: string[] = [];
+
+  Object.entries(raw).forEach(([locale, body]) => {
+    const { entries, issues } = checkEntries(body, content, messages);
+    if (issues.length) failures.push(`${locale}:\n${formatIssues(issues)}`);
+    else snapshot[locale as Locale] = entries;
+  });
+
+  if (failures.length) throw new Error(`CMS entries failed validation:\n${failures.join('\n')}`);
+  return snapshot;
+};
+
+// Shared by every instance of the plugin in this process, so the pre-render
+// server renders the same snapshot the client bundle was built with
+const snapshots = ((globalThis as Record<symbol, unknown>)[Symbol.for('nexus:cms-snapshots')] ??= new Map()) as Map<
+  string,
+  Promise<CmsSnapshot>
+>;
+
+// An unreachable CMS falls back to the local directory; invalid entries fail the build
+const loadSnapshot = (env: CmsEnv, logger: Logger) => {
+  const key = env.endpoint ?? LOCAL_DIR;
+  const cached = snapshots.get(key);
+  if (cached) return cached;
+
+  const raw = env.endpoint
+    ? fetchAll(createRestSource(env.endpoint, { token: env.token })).catch((error: Error) => {
+        logger.warn(`CMS unavailable (${error.message}); using the local cms/ directory`);
+        return fetchAll(createFileSource(LOCAL_DIR));
+      })
+    : fetchAll(createFileSource(LOCAL_DIR));
+  const snapshot = raw.then(checkSnapshot);
+  snapshots.set(key, snapshot);
+  snapshot.catch(() => snapshots.delete(key));
+  return snapshot;
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+// Publish notifications are a few hundred bytes; anything near this is not one
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Resolves null once the body passes the limit; the rest is drained unread
+const readBody = (req: IncomingMessage) =>
+  new Promise<string | null>((resolveBody, reject) => {
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) return resolveBody(null);
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_BYTES) {
+        chunks.push(chunk);
+        return;
+      }
+      req.off('data', onData);
+      req.resume();
+      resolveBody(null);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+
+// Publish webhooks sign the raw body with HMAC-SHA256 of the shared secret,
+// sent hex-encoded (optionally prefixed "sha256=") in X-CMS-Signature
+const verifySignature = (body: string, signature: string | string[] | undefined, secret: string) => {
+  if (typeof signature !== 'string') return false;
+  const expected = createHmac('sha256', secret).update(body).digest();
+  const given = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const webhook =
+  (secret: string | undefined, onPublish: () => void) => async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'POST') return send(res, 405, { message: 'Use POST' });
+    const body = await readBody(req);
+    if (body === null) {
+      res.setHeader('Connection', 'close');
+      return send(res, 413, { message: 'Body too large' });
+    }
+    if (secret && !verifySignature(body, req.headers['x-cms-signature'], secret)) {
+      return send(res, 401, { message: 'Invalid signature' });
+    }
+    onPublish();
+    send(res, 202, { message: 'Content refresh started' });
+  };
+
+const bearer = (req: IncomingMessage) => req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+
+// Content from a headless CMS, with the local cms/ directory as offline fallback.
+// Published entries reach the app as `virtual:nexus-cms`. In development the
+// dev server also stubs the CMS delivery API from cms/ for preview mode, and a
+// publish webhook at /__cms/webhook refreshes content; under `vite preview` the
+// same webhook rebuilds the site.
+//
+// Those two servers are the only places the webhook exists. A production host
+// serving the built dist/ never hears about a publish, so point the CMS's
+// publish webhook at the host's own build hook (a deploy hook URL on most
+// static hosts, or a CI workflow dispatch) to run `npm run build` instead.
+export const cms = (): Plugin => {
+  let config: ResolvedConfig;
+  let env: CmsEnv = {};
+  let rebuilding: Promise<void> | null = null;
+  let queued = false;
+
+  // One rebuild at a time; publishes arriving mid-build trigger one more
+  const rebuild = () => {
+    queued = true;
+    rebuilding ??= (async () => {
+      while (queued) {
+        queued = false;
+        snapshots.clear();
+        await build({ root: config.root, configFile: config.configFile, mode: config.mode, logLevel: 'warn' });
+        config.logger.info('Site rebuilt after a CMS publish');
+      }
+    })()
+      .catch((error: Error) => config.logger.error(`Rebuild after a CMS publish failed: ${error.message}`))
+      .finally(() => (rebuilding = null));
+  };
+
+  return {
+    name: 'nexus:cms',
+    configResolved(resolved) {
+      config = resolved;
+      const vars = loadEnv(resolved.mode, resolved.envDir || resolved.root, 'CMS_');
+      env = {
+        endpoint: vars.CMS_ENDPOINT || undefined,
+        token: vars.CMS_TOKEN || undefined,
+        previewToken: vars.CMS_PREVIEW_TOKEN || undefined,
+        webhookSecret: vars.CMS_WEBHOOK_SECRET || undefined,
+      };
+    },
+    resolveId(id) {
+      if (id === VIRTUAL_ID) return RESOLVED_ID;
+    },
+    async load(id) {
+      if (id !== RESOLVED_ID) return;
+      try {
+        return `export default ${JSON.stringify(await loadSnapshot(env, config.logger))};`;
+      } catch (error) {
+        this.error((error as Error).message);
+      }
+    },
+    configureServer(server) {
+      const refresh = () => {
+        snapshots.clear();
+        const module = server.moduleGraph.getModuleById(RESOLVED_ID);
+        if (module) server.moduleGraph.invalidateModule(module);
+        server.ws.send({ type: 'full-reload' });
+      };
+
+      server.middlewares.use(`${LOCAL_CMS_PATH}/webhook`, webhook(env.webhookSecret, refresh));
+      server.middlewares.use(`${LOCAL_CMS_PATH}/entries`, async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const locale = url.pathname.slice(1);
+        if (!isLocale(locale)) return send(res, 404, { message: 'Unknown locale' });
+        const preview = url.searchParams.get('preview') === 'true' ? bearer(req) : undefined;
+        if (url.searchParams.get('preview') === 'true' && (!preview || (env.previewToken && preview !== env.previewToken))) {
+          return send(res, 401, { message: 'Invalid preview token' });
+        }
+        send(res, 200, await createFileSource(LOCAL_DIR).entries(locale, { preview }));
+      });
+
+      // Editing published files in cms/ behaves like a publish
+      server.watcher.on('change', (file) => {
+        if (file.startsWith(LOCAL_DIR) && !file.startsWith(resolve(LOCAL_DIR, 'drafts'))) refresh();
+      });
+    },
+    configurePreviewServer(server) {
+      // Rebuilding on request is only safe when requests can be authenticated
+      if (!env.webhookSecret) return;
+      server.middlewares.use(`${LOCAL_CMS_PATH}/webhook`, webhook(env.webhookSecret, rebuild));
+    },
+  };
+};
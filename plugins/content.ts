@@ -0,0 +1,39 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { Plugin } from 'vite';
+import { schema, validateContent, formatIssues } from '../src/content/validate';
+
+const CONTENT_DIR = resolve(__dirname, '../src/content');
+
+export const loadContent = () =>
+  Object.fromEntries(
+    Object.keys(schema).map((collection) => {
+      const file = resolve(CONTENT_DIR, `${collection}.json`);
+      try {
+        return [collection, JSON.parse(readFileSync(file, 'utf-8'))];
+      } catch (error) {
+        throw new Error(`Could not read ${file}: ${(error as Error).message}`);
+      }
+    })
+  );
+
+// Fails the build when content is missing fields, reuses a slug or links to a
+// section that does not exist. In dev the same checks run on every edit.
+export const contentValidation = (): Plugin => ({
+  name: 'nexus:content-validation',
+  buildStart() {
+    const issues = validateContent(loadContent());
+    if (issues.length) {
+      this.error(`Content validation failed:\n${formatIssues(issues)}`);
+    }
+  },
+  handleHotUpdate({ file, server }) {
+    if (!file.startsWith(CONTENT_DIR) || !file.endsWith('.json')) return;
+    try {
+      const issues = validateContent(loadContent());
+      if (issues.length) server.config.logger.error(`Content validation failed:\n${formatIssues(issues)}`);
+    } catch (error) {
+      server.config.logger.error((error as Error).message);
+    }
+  },
+});
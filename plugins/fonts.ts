@@ -0,0 +1,28 @@
+import type { Plugin } from 'vite';
+
+// Adds <link rel="preload"> for the built font files matching `patterns`, so
+// above-the-fold text does not wait for the stylesheet to discover them
+export const fontPreload = (patterns: RegExp[]): Plugin => {
+  let base = '/';
+
+  return {
+    name: 'nexus:font-preload',
+    apply: 'build',
+    configResolved(config) {
+      base = config.base;
+    },
+    transformIndexHtml: {
+      order: 'post',
+      handler(_html, { bundle }) {
+        if (!bundle) return;
+        return Object.keys(bundle)
+          .filter((fileName) => fileName.endsWith('.woff2') && patterns.some((pattern) => pattern.test(fileName)))
+          .map((fileName) => ({
+            tag: 'link',
+            attrs: { rel: 'preload', href: `${base}${fileName}`, as: 'font', type: 'font/woff2', crossorigin: '' },
+            injectTo: 'head' as const,
+          }));
+      },
+    },
+  };
+};
@@ -0,0 +1,55 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { basename, resolve } from 'node:path';
+import type { Plugin } from 'vite';
+import { checkCatalogs, formatCatalogIssues } from '../src/i18n/check';
+import { schema, validateContentOverrides, formatIssues } from '../src/content/validate';
+
+const MESSAGES_DIR = resolve(__dirname, '../src/i18n/messages');
+const CONTENT_DIR = resolve(__dirname, '../src/content');
+const BASE_LOCALE = 'en';
+
+const readJsonDir = (dir: string) =>
+  Object.fromEntries(
+    readdirSync(dir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => [basename(file, '.json'), JSON.parse(readFileSync(resolve(dir, file), 'utf-8'))])
+  );
+
+const check = () => {
+  const catalogIssues = checkCatalogs(readJsonDir(MESSAGES_DIR), BASE_LOCALE);
+  const content = Object.fromEntries(
+    Object.keys(schema).map((collection) => [
+      collection,
+      JSON.parse(readFileSync(resolve(CONTENT_DIR, `${collection}.json`), 'utf-8')),
+    ])
+  );
+  const contentIssues = Object.entries(readJsonDir(resolve(CONTENT_DIR, 'locales'))).flatMap(([locale, overrides]) =>
+    validateContentOverrides(content, overrides, locale)
+  );
+
+  return {
+    errors: catalogIssues.filter((issue) => issue.severity === 'error'),
+    warnings: catalogIssues.filter((issue) => issue.severity === 'warning'),
+    contentIssues,
+  };
+};
+
+// Fails the build when a locale is missing a message key, changes its
+// placeholders, or translates content that does not exist
+export const translationCheck = (): Plugin => ({
+  name: 'nexus:translation-check',
+  buildStart() {
+    const { errors, warnings, contentIssues } = check();
+    if (warnings.length) this.warn(`Unused translation keys:\n${formatCatalogIssues(warnings)}`);
+    if (errors.length || contentIssues.length) {
+      this.error(
+        [
+          errors.length && `Translation check failed:\n${formatCatalogIssues(errors)}`,
+          contentIssues.length && `Content translation check failed:\n${formatIssues(contentIssues)}`,
+        ]
+          .filter(Boolean)
+          .join('\n')
+      );
+    }
+  },
+});
@@ -0,0 +1,21 @@
+import { resolve } from 'node:path';
+import type { Plugin } from 'vite';
+import { compileInsight } from '../src/insights/markdown';
+
+const INSIGHTS_DIR = resolve(__dirname, '../src/content/insights');
+
+// Compiles each insight's Markdown into a module exporting the article, so the
+// browser never ships a Markdown parser. Bad frontmatter fails the build.
+export const insights = (): Plugin => ({
+  name: 'nexus:insights',
+  enforce: 'pre',
+  transform(source, id) {
+    const file = id.split('?')[0];
+    if (!file.startsWith(INSIGHTS_DIR) || !file.endsWith('.md')) return;
+    try {
+      return { code: `export default ${JSON.stringify(compileInsight(source, file.slice(INSIGHTS_DIR.length + 1)))};`, map: null };
+    } catch (error) {
+      this.error((error as Error).message);
+    }
+  },
+});
@@ -0,0 +1,70 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { createServer, type Plugin, type ResolvedConfig } from 'vite';
+
+type ServerEntry = typeof import('../src/entry-server');
+
+const ENTRY = '/src/entry-server.tsx';
+
+// Without JavaScript, entrance animations never run; show their end state
+const NOSCRIPT = '<noscript><style>#root [style*="opacity:0"]{opacity:1!important;transform:none!important}</style></noscript>';
+
+const outputFile = (url: string) => (url === '/' ? 'index.html' : `${url.slice(1)}/index.html`);
+
+// After the client build, renders every route to static HTML through the
+// server entry, and writes sitemap.xml, robots.txt and the RSS feed next to it
+export const prerender = (): Plugin => {
+  let config: ResolvedConfig;
+  let written = false;
+
+  return {
+    name: 'nexus:prerender',
+    apply: 'build',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    // closeBundle runs after a failed build too, whether it failed building or
+    // rendering; only go on once the bundle is on disk, leaving errors visible
+    writeBundle() {
+      written = true;
+    },
+    async closeBundle() {
+      if (config.build.ssr || !written) return;
+      const outDir = resolve(config.root, config.build.outDir);
+      const template = readFileSync(resolve(outDir, 'index.html'), 'utf-8');
+      const server = await createServer({
+        root: config.root,
+        mode: config.mode,
+        logLevel: 'error',
+        appType: 'custom',
+        server: { middlewareMode: true, hmr: false, watch: null },
+      });
+
+      try {
+        const entry = (await server.ssrLoadModule(ENTRY)) as ServerEntry;
+        const page = (url: string, hydrate: boolean) => {
+          const { html, head, lang, dir, themeScript } = entry.render(url);
+          return template
+            .replace(/<html[^>]*>/, `<html lang="${lang}" dir="${dir}">`)
+            .replace(/<title>.*<\/title>/, `${head}\n    <script>${themeScript}</script>\n    ${NOSCRIPT}`)
+            .replace('<div id="root"></div>', `<div id="root"${hydrate ? ` data-prerendered="${url}"` : ''}>${html}</div>`);
+        };
+        const write = (file: string, body: string) => {
+          const path = resolve(outDir, file);
+          mkdirSync(dirname(path), { recursive: true });
+          writeFileSync(path, body);
+        };
+
+        const routes = entry.prerenderRoutes();
+        routes.forEach((url) => write(outputFile(url), page(url, true)));
+        write('404.html', page(entry.NOT_FOUND_URL, false));
+        write('sitemap.xml', entry.sitemap());
+        write('robots.txt', entry.robots());
+        write('feed.xml', entry.feed());
+        config.logger.info(`Pre-rendered ${routes.length} pages, 404.html, sitemap.xml and feed.xml`);
+      } finally {
+        await server.close();
+      }
+    },
+  };
+};
@@ -0,0 +1,138 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { build, type Plugin, type ResolvedConfig, type Rollup } from 'vite';
+import { company } from '../src/company';
+import { defaultLocale, locales, type LocaleConfig } from '../src/i18n/config';
+import { flatten } from '../src/i18n/flatten';
+import { resolveColors } from '../src/theme/tokens';
+import { SERVICE_WORKER_URL } from '../src/pwa/protocol';
+
+const SW_ENTRY = resolve(__dirname, '../src/sw/service-worker.ts');
+const MESSAGES_DIR = resolve(__dirname, '../src/i18n/messages');
+const MANIFEST_URL = '/manifest.webmanifest';
+
+// Only the Latin subsets carry the site's copy; the rest load on demand when online
+const PRECACHED_FONT = /-latin-\d+-(normal|italic)-[\w-]+\.woff2$/;
+
+const icons = [
+  { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+  { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+  { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml' },
+];
+
+const colors = resolveColors('dark');
+
+const messagesFor = (code: string) => flatten(JSON.parse(readFileSync(resolve(MESSAGES_DIR, `${code}.json`), 'utf-8')));
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const webManifest = () => ({
+  name: company.name,
+  short_name: company.name,
+  description: messagesFor(defaultLocale)['hero.lead'],
+  start_url: '/',
+  scope: '/',
+  display: 'standalone',
+  background_color: colors.canvas,
+  theme_color: colors.canvas,
+  icons: [...icons.map((icon) => ({ ...icon, purpose: 'any' })), { ...icons[1], purpose: 'maskable' }],
+});
+
+// Self-contained, so it renders even when nothing else could be cached
+const offlinePage = ({ code, dir }: LocaleConfig) => {
+  const messages = messagesFor(code);
+  return `<!doctype html>
+<html lang="${code}" dir="${dir}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="robots" content="noindex">
+<meta name="theme-color" content="${colors.canvas}">
+<title>${escapeHtml(messages['offline.title'])} — ${company.name}</title>
+<style>
+body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;background:${colors.canvas};color:${colors.ink};font-family:system-ui,sans-serif;text-align:center;padding:24px;box-sizing:border-box}
+.brand{font-family:Georgia,serif;font-size:28px;margin-bottom:48px}.brand span{color:${colors.accent}}
+h1{font-family:Georgia,serif;font-weight:400;font-size:44px;line-height:1.1;margin:0 0 24px}
+p{color:${colors.soft};max-width:28rem;margin:0 auto 40px;line-height:1.6}
+a{display:inline-block;background:${colors.accent};color:${colors['on-accent']};text-decoration:none;padding:14px 28px;letter-spacing:.05em;font-size:14px}
+</style>
+</head>
+<body>
+<main>
+<div class="brand">Nexus<span>AI</span></div>
+<h1>${escapeHtml(messages['offline.title'])}</h1>
+<p>${escapeHtml(messages['offline.body'])}</p>
+<a href="">${escapeHtml(messages['offline.retry'])}</a>
+</main>
+</body>
+</html>
+`;
+};
+
+// Installable, offline-capable build: emits the web app manifest, an offline
+// page per locale and a service worker that precaches the app shell and fonts
+export const pwa = (): Plugin => {
+  let config: ResolvedConfig;
+
+  return {
+    name: 'nexus:pwa',
+    apply: 'build',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    transformIndexHtml: () => [
+      { tag: 'link', attrs: { rel: 'manifest', href: MANIFEST_URL }, injectTo: 'head' },
+      { tag: 'meta', attrs: { name: 'theme-color', content: colors.canvas }, injectTo: 'head' },
+      { tag: 'link', attrs: { rel: 'icon', href: '/icons/icon.svg', type: 'image/svg+xml' }, injectTo: 'head' },
+      { tag: 'link', attrs: { rel: 'apple-touch-icon', href: '/icons/apple-touch-icon.png' }, injectTo: 'head' },
+    ],
+    async generateBundle(_, bundle) {
+      if (config.build.ssr) return;
+
+      this.emitFile({ type: 'asset', fileName: MANIFEST_URL.slice(1), source: JSON.stringify(webManifest(), null, 2) });
+      const offlinePages = locales.map((locale) => {
+        const fileName = locale.code === defaultLocale ? 'offline.html' : `${locale.code}/offline.html`;
+        const source = offlinePage(locale);
+        this.emitFile({ type: 'asset', fileName, source });
+        return { url: `/${fileName}`, source };
+      });
+
+      const precache = [
+        '/',
+        MANIFEST_URL,
+        ...icons.map((icon) => icon.src),
+        ...offlinePages.map((page) => page.url),
+        ...Object.keys(bundle)
+          .filter((file) => /\.(js|css)$/.test(file) || PRECACHED_FONT.test(file))
+          .map((file) => `/${file}`),
+      ];
+      const version = createHash('sha256')
+        .update(precache.join('\n'))
+        .update(offlinePages.map((page) => page.source).join(''))
+        .digest('hex')
+        .slice(0, 12);
+
+      const [output] = (await build({
+        configFile: false,
+        root: config.root,
+        logLevel: 'warn',
+        publicDir: false,
+        define: {
+          __PRECACHE__: JSON.stringify(precache),
+          __VERSION__: JSON.stringify(version),
+          __LOCALES__: JSON.stringify(locales.filter(({ code }) => code !== defaultLocale).map(({ code }) => code)),
+        },
+        build: {
+          write: false,
+          emptyOutDir: false,
+          minify: config.build.minify,
+          lib: { entry: SW_ENTRY, formats: ['iife'], name: 'sw', fileName: () => 'sw.js' },
+        },
+      })) as Rollup.RollupOutput[];
+
+      this.emitFile({ type: 'asset', fileName: SERVICE_WORKER_URL.slice(1), source: output.output[0].code });
+    },
+  };
+};
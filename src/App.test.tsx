@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MIN_FILL_TIME_MS } from './consultation';
+import { CONSENT_VERSION, defaultChoices } from './consent';
+import { sectionIds } from './content';
+import { assignVariant } from './experiments';
+import { renderApp } from './test/render';
+import { axeViolations } from './test/axe';
+import { installIntersectionObserver, uninstallIntersectionObserver, intersectAll } from './test/intersectionObserver';
+
+// framer-motion's whileInView needs an IntersectionObserver; sections are revealed up front
+beforeEach(installIntersectionObserver);
+afterEach(uninstallIntersectionObserver);
+
+const renderHome = () => {
+  const view = renderApp('/');
+  intersectAll();
+  return view;
+};
+
+const contactForm = () => {
+  const section = document.getElementById('contact')!;
+  return {
+    name: within(section).getByLabelText('Name'),
+    email: within(section).getByLabelText('Email'),
+    company: within(section).getByLabelText('Company'),
+    budget: within(section).getByLabelText('Budget'),
+    timeline: within(section).getByLabelText('Timeline'),
+    brief: within(section).getByLabelText('Project brief'),
+    submit: within(section).getByRole('button', { name: 'Request Consultation' }),
+  };
+};
+
+describe('Contact form', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('flags every missing field and focuses the first', async () => {
+    const user = userEvent.setup();
+    renderHome();
+    const form = contactForm();
+    await user.click(form.submit);
+
+    expect(form.name).toHaveFocus();
+    expect(form.name).toHaveAttribute('aria-invalid', 'true');
+    expect(form.name).toHaveAccessibleDescription('Please tell us your name.');
+    expect(form.email).toHaveAccessibleDescription('An email address is required.');
+    expect(form.budget).toHaveAccessibleDescription('Select a budget range.');
+  });
+
+  it('validates a field once it has been left', async () => {
+    const user = userEvent.setup();
+    renderHome();
+    const form = contactForm();
+
+    await user.type(form.email, 'ada@');
+    expect(form.email).toHaveAttribute('aria-invalid', 'false');
+    await user.tab();
+    expect(form.email).toHaveAccessibleDescription('Please enter a valid email address.');
+
+    // Touched fields re-check as the visitor types
+    await user.type(form.email, 'example.com');
+    expect(form.email).toHaveAttribute('aria-invalid', 'false');
+  });
+
+  it('sends a complete request and confirms it with a reference', async () => {
+    // Only the clock is faked, so the form is not taken for a bot filling it instantly
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const user = userEvent.setup();
+    renderHome();
+    const form = contactForm();
+
+    await user.type(form.name, 'Ada Lovelace');
+    await user.type(form.email, 'ada@example.com');
+    await user.type(form.company, 'Analytical Engines');
+    await user.selectOptions(form.budget, '150k-500k');
+    await user.selectOptions(form.timeline, '1-3-months');
+    await user.type(form.brief, 'We want to forecast demand across our regional warehouses.');
+    vi.setSystemTime(Date.now() + MIN_FILL_TIME_MS);
+    await user.click(form.submit);
+
+    expect(form.submit).toBeDisabled();
+    expect(form.submit).toHaveTextContent('Sending…');
+    const status = await screen.findByRole('status', {}, { timeout: 3000 });
+    expect(status).toHaveTextContent('Thank you, Ada.');
+    expect(status).toHaveTextContent(/Your reference is MOCK-\d{4}\./);
+  });
+});
+
+describe('Consent and experiments', () => {
+  // A returning visitor bucketed into the alternative headline
+  const visitorId = Array.from({ length: 50 }, (_, i) => `visitor-${i}`).find((id) => assignVariant('hero', id) === 'b')!;
+
+  const storeConsent = (analytics: boolean) =>
+    localStorage.setItem(
+      'nexus:consent',
+      JSON.stringify({ version: CONSENT_VERSION, choices: { ...defaultChoices, analytics }, updatedAt: '2026-01-15T12:00:00Z' })
+    );
+
+  beforeEach(() => localStorage.setItem('nexus:visitor', visitorId));
+
+  it('keeps a consenting visitor in their variant and does not ask again', () => {
+    storeConsent(true);
+    renderHome();
+
+    expect(screen.queryByRole('region', { name: 'Your privacy, your choice' })).not.toBeInTheDocument();
+    expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('Turning');
+    expect(localStorage.getItem('nexus:visitor')).toBe(visitorId);
+  });
+
+  it('drops the visitor id and the variant when analytics is refused in the banner', async () => {
+    const user = userEvent.setup();
+    renderHome();
+
+    const banner = await screen.findByRole('region', { name: 'Your privacy, your choice' });
+    await user.click(within(banner).getByRole('button', { name: 'Reject non-essential' }));
+
+    await waitFor(() => expect(localStorage.getItem('nexus:visitor')).toBeNull());
+    expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('Crafting');
+  });
+});
+
+describe('Accessibility', () => {
+  it.each(sectionIds)('the %s section has no axe violations', async (id) => {
+    renderHome();
+    expect(await axeViolations(document.getElementById(id)!)).toEqual([]);
+  });
+
+  it('the site header and footer have no axe violations', async () => {
+    renderHome();
+    expect(await axeViolations(document.querySelector('[data-site-header]')!)).toEqual([]);
+    expect(await axeViolations(screen.getByRole('contentinfo'))).toEqual([]);
+  });
+
+  it('the open mobile menu has no axe violations', async () => {
+    const user = userEvent.setup();
+    renderHome();
+    await user.click(screen.getByRole('button', { name: 'Toggle menu' }));
+    await waitFor(() => expect(screen.getByRole('dialog', { name: 'Site menu' })).toBeInTheDocument());
+
+    expect(await axeViolations(screen.getByRole('dialog', { name: 'Site menu' }))).toEqual([]);
+  });
+});
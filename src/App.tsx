@@ -1,222 +1,203 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useReducer, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { Routes, Route, Outlet, useLocation } from 'react-router-dom';
+import {
+  budgetBands,
+  timelines,
+  emptyConsultation,
+  validateField,
+  validateConsultation,
+  toConsultationRequest,
+  isLikelySpam,
+  submissionReducer,
+  defaultConsultationAdapter,
+  HONEYPOT_FIELD,
+  BRIEF_MIN_LENGTH,
+  BRIEF_MAX_LENGTH,
+  type ConsultationValues,
+  type ConsultationField,
+  type ConsultationErrors,
+  type SubmissionAdapter,
+} from './consultation';
+import type { Stat as StatContent } from './content';
+import { locales, defaultLocale, localeFromPath, I18nProvider, LocaleLink, useI18n, useContent, type Locale } from './i18n';
+import { useInView } from './hooks/useInView';
+import { useStats } from './hooks/useStats';
+import { TextReveal } from './components/TextReveal';
+import { Navigation } from './components/Navigation';
+import { CountUp } from './components/CountUp';
+import { MotionProvider, useMotionSettings, useReveal, useLoopActive } from './motion';
+import { ThemeProvider } from './theme';
+import { scrollToSection } from './scroll';
+import { endHydration } from './hydration';
+import { AnalyticsProvider, useAnalytics, useSectionView } from './analytics';
+import { ConsentProvider, useConsent } from './consent';
+import { ConsentBanner, ConsentPreferences } from './components/Consent';
+import { AssessmentProvider, AssessmentWizard, useAssessment } from './components/AssessmentWizard';
+import { ChatWidget } from './components/ChatWidget';
+import { BookingScheduler } from './components/BookingScheduler';
+import { PreviewBanner } from './components/PreviewBanner';
+import { PreviewProvider } from './cms';
+import { onQueueMessage } from './pwa';
+import { ExperimentProvider, useExperiments, useVariant } from './experiments';
+import { company } from './company';
+import { Seo, organizationJsonLd } from './seo';
+import { ProjectRow } from './components/ProjectRow';
+import { TestimonialCarousel } from './components/TestimonialCarousel';
+import { LogoMarquee } from './components/LogoMarquee';
+import { NeuralField } from './components/NeuralField';
+import { WorkIndex } from './pages/WorkIndex';
+import { CaseStudy } from './pages/CaseStudy';
+import { ServicePage } from './pages/ServicePage';
+import { LegalPage } from './pages/LegalPage';
+import { NotFound } from './pages/NotFound';
+import { TeamPage } from './pages/TeamPage';
+import { InsightsIndex } from './pages/InsightsIndex';
+import { InsightArticle } from './pages/InsightArticle';
+import { InsightCard } from './components/InsightCard';
+import { localizeInsights } from './insights';
 
-// Custom hook for intersection observer
-const useInView = (threshold = 0.1) => {
-  const [ref, setRef] = useState<HTMLElement | null>(null);
-  const [inView, setInView] = useState(false);
-
-  useEffect(() => {
-    if (!ref) return;
-    const observer = new IntersectionObserver(
-      ([entry]) => {
-        if (entry.isIntersecting) {
-          setInView(true);
-          observer.disconnect();
-        }
-      },
-      { threshold }
-    );
-    observer.observe(ref);
-    return () => observer.disconnect();
-  }, [ref, threshold]);
-
-  return [setRef, inView] as const;
-};
-
-// Animated text reveal component
-const TextReveal = ({ children, delay = 0 }: { children: string; delay?: number }) => {
-  const [ref, inView] = useInView();
-
-  return (
-    <span ref={ref} className="inline-block overflow-hidden">
-      <motion.span
-        className="inline-block"
-        initial={{ y: '100%' }}
-        animate={inView ? { y: 0 } : { y: '100%' }}
-        transition={{ duration: 0.8, delay, ease: [0.22, 1, 0.36, 1] }}
-      >
-        {children}
-      </motion.span>
-    </span>
-  );
-};
+const MotionLink = motion.create(LocaleLink);
 
 // Service card component
-const ServiceCard = ({ title, description, index }: { title: string; description: string; index: number }) => {
+const ServiceCard = ({ slug, title, description, index }: { slug: string; title: string; description: string; index: number }) => {
   const [ref, inView] = useInView();
   const [isHovered, setIsHovered] = useState(false);
+  const { t, config } = useI18n();
+  const { track } = useAnalytics();
+  const hoverTracked = useRef(false);
+  const nudge = config.dir === 'rtl' ? -8 : 8;
+  const { hidden, shown, initial } = useReveal({ opacity: 0, y: 60 }, { opacity: 1, y: 0 });
 
   return (
-    <motion.div
+    <MotionLink
       ref={ref}
-      initial={{ opacity: 0, y: 60 }}
-      animate={inView ? { opacity: 1, y: 0 } : { opacity: 0, y: 60 }}
+      to={`/services/${slug}`}
+      initial={initial}
+      animate={inView ? shown : hidden}
       transition={{ duration: 0.8, delay: index * 0.15, ease: [0.22, 1, 0.36, 1] }}
-      onMouseEnter={() => setIsHovered(true)}
+      onMouseEnter={() => {
+        setIsHovered(true);
+        // One hover per card per visit; repeated passes of the pointer add nothing
+        if (!hoverTracked.current) {
+          hoverTracked.current = true;
+          track('service_hover', { service: slug });
+        }
+      }}
       onMouseLeave={() => setIsHovered(false)}
-      className="group relative border border-[#252525] p-6 md:p-8 cursor-pointer overflow-hidden"
+      onClick={() => track('service_open', { service: slug })}
+      onFocus={() => setIsHovered(true)}
+      onBlur={() => setIsHovered(false)}
+      className="group relative block h-full border border-line p-6 md:p-8 overflow-hidden focus:outline-none focus-visible:border-accent"
     >
       <motion.div
-        className="absolute inset-0 bg-gradient-to-br from-[#c9a962]/10 to-transparent"
+        className="absolute inset-0 bg-gradient-to-br from-accent/10 to-transparent"
         initial={{ opacity: 0 }}
         animate={{ opacity: isHovered ? 1 : 0 }}
         transition={{ duration: 0.4 }}
       />
       <div className="relative z-10">
-        <span className="text-[#c9a962] font-outfit text-sm tracking-[0.3em] mb-4 block">
+        <span className="text-accent font-outfit text-sm tracking-[0.3em] mb-4 block">
           0{index + 1}
         </span>
-        <h3 className="font-cormorant text-2xl md:text-3xl text-[#f5f0e8] mb-4 leading-tight">
+        <h3 className="font-cormorant text-2xl md:text-3xl text-ink mb-4 leading-tight">
           {title}
         </h3>
-        <p className="font-outfit text-[#6b6b6b] text-sm md:text-base leading-relaxed">
+        <p className="font-outfit text-muted text-sm md:text-base leading-relaxed">
           {description}
         </p>
         <motion.div
-          className="mt-6 flex items-center gap-2 text-[#c9a962]"
-          animate={{ x: isHovered ? 8 : 0 }}
+          className="mt-6 flex items-center gap-2 text-accent"
+          animate={{ x: isHovered ? nudge : 0 }}
           transition={{ duration: 0.3 }}
         >
-          <span className="font-outfit text-sm tracking-wider">Explore</span>
-          <svg width="20" height="20" viewBox="0 0 20 20" fill="none" className="stroke-current">
+          <span className="font-outfit text-sm tracking-wider" aria-hidden="true">{t('services.explore')}</span>
+          <svg width="20" height="20" viewBox="0 0 20 20" fill="none" className="stroke-current rtl:-scale-x-100">
             <path d="M4 10h12M12 6l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
           </svg>
         </motion.div>
       </div>
-    </motion.div>
+    </MotionLink>
   );
 };
 
 // Stat component
-const Stat = ({ value, label, delay }: { value: string; label: string; delay: number }) => {
+const Stat = ({ stat, delay }: { stat: StatContent; delay: number }) => {
   const [ref, inView] = useInView();
+  const { hidden, shown, initial } = useReveal({ opacity: 0, y: 40 }, { opacity: 1, y: 0 });
+  const { formatStat } = useI18n();
 
   return (
     <motion.div
       ref={ref}
-      initial={{ opacity: 0, y: 40 }}
-      animate={inView ? { opacity: 1, y: 0 } : { opacity: 0, y: 40 }}
+      initial={initial}
+      animate={inView ? shown : hidden}
       transition={{ duration: 0.8, delay, ease: [0.22, 1, 0.36, 1] }}
-      className="text-center md:text-left"
+      className="text-center md:text-start"
     >
-      <div className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-[#c9a962] mb-2">{value}</div>
-      <div className="font-outfit text-xs md:text-sm text-[#6b6b6b] tracking-[0.2em] uppercase">{label}</div>
+      <div className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-accent mb-2 tabular-nums">
+        <CountUp value={stat.value} format={(value) => formatStat(stat, value)} start={inView} delay={delay + 0.2} />
+      </div>
+      <div className="font-outfit text-xs md:text-sm text-muted tracking-[0.2em] uppercase">{stat.label}</div>
     </motion.div>
   );
 };
 
-// Navigation
-const Navigation = () => {
-  const [isOpen, setIsOpen] = useState(false);
-  const [scrolled, setScrolled] = useState(false);
-
-  useEffect(() => {
-    const handleScroll = () => setScrolled(window.scrollY > 50);
-    window.addEventListener('scroll', handleScroll);
-    return () => window.removeEventListener('scroll', handleScroll);
-  }, []);
-
-  return (
-    <>
-      <motion.nav
-        initial={{ y: -100 }}
-        animate={{ y: 0 }}
-        transition={{ duration: 0.8, delay: 0.2, ease: [0.22, 1, 0.36, 1] }}
-        className={`fixed top-0 left-0 right-0 z-50 transition-all duration-500 ${
-          scrolled ? 'bg-[#0a0a0a]/95 backdrop-blur-md' : ''
-        }`}
-      >
-        <div className="max-w-7xl mx-auto px-6 md:px-12 py-6 flex items-center justify-between">
-          <a href="#" className="font-cormorant text-2xl md:text-3xl text-[#f5f0e8] tracking-tight">
-            Nexus<span className="text-[#c9a962]">AI</span>
-          </a>
-
-          {/* Desktop Nav */}
-          <div className="hidden md:flex items-center gap-12">
-            {['Services', 'Work', 'About', 'Contact'].map((item, i) => (
-              <motion.a
-                key={item}
-                href={`#${item.toLowerCase()}`}
-                className="font-outfit text-sm text-[#6b6b6b] hover:text-[#f5f0e8] tracking-wider transition-colors duration-300"
-                initial={{ opacity: 0, y: -20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.5, delay: 0.3 + i * 0.1 }}
-              >
-                {item}
-              </motion.a>
-            ))}
-          </div>
-
-          {/* Mobile menu button */}
-          <button
-            onClick={() => setIsOpen(!isOpen)}
-            className="md:hidden w-12 h-12 flex items-center justify-center"
-            aria-label="Toggle menu"
-          >
-            <div className="relative w-6 h-5">
-              <span className={`absolute left-0 w-full h-[1.5px] bg-[#f5f0e8] transition-all duration-300 ${isOpen ? 'top-2 rotate-45' : 'top-0'}`} />
-              <span className={`absolute left-0 top-2 w-full h-[1.5px] bg-[#f5f0e8] transition-opacity duration-300 ${isOpen ? 'opacity-0' : 'opacity-100'}`} />
-              <span className={`absolute left-0 w-full h-[1.5px] bg-[#f5f0e8] transition-all duration-300 ${isOpen ? 'top-2 -rotate-45' : 'top-4'}`} />
-            </div>
-          </button>
-        </div>
-      </motion.nav>
-
-      {/* Mobile Menu */}
-      <AnimatePresence>
-        {isOpen && (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            transition={{ duration: 0.3 }}
-            className="fixed inset-0 z-40 bg-[#0a0a0a] md:hidden"
-          >
-            <div className="flex flex-col items-center justify-center h-full gap-8">
-              {['Services', 'Work', 'About', 'Contact'].map((item, i) => (
-                <motion.a
-                  key={item}
-                  href={`#${item.toLowerCase()}`}
-                  onClick={() => setIsOpen(false)}
-                  className="font-cormorant text-4xl text-[#f5f0e8]"
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ duration: 0.3, delay: i * 0.1 }}
-                >
-                  {item}
-                </motion.a>
-              ))}
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-    </>
-  );
-};
-
 // Hero section
 const Hero = () => {
+  const { t } = useI18n();
+  const { track } = useAnalytics();
+  const { start: startAssessment } = useAssessment();
+  const headline = useVariant('hero');
+  const cta = useVariant('cta');
+  const { loops } = useMotionSettings();
+  // Whether the particle field is drawing; until then, or without WebGL, the orb and grid show
+  const [fieldReady, setFieldReady] = useState(false);
+  const [orbRef, orbVisible] = useLoopActive();
+  const [indicatorRef, indicatorActive] = useLoopActive();
+  const orbActive = orbVisible && !fieldReady;
+
   return (
     <section className="min-h-screen flex items-center justify-center relative overflow-hidden pt-20">
       {/* Background gradient */}
-      <div className="absolute inset-0 bg-gradient-to-b from-[#0a0a0a] via-[#0f0f0f] to-[#0a0a0a]" />
+      <div className="absolute inset-0 bg-gradient-to-b from-canvas via-surface to-canvas" />
 
-      {/* Animated orb */}
+      {/* Fallback: animated orb and grid lines */}
       <motion.div
-        className="absolute top-1/4 right-1/4 w-[300px] md:w-[600px] h-[300px] md:h-[600px] rounded-full bg-gradient-to-br from-[#c9a962]/20 via-[#c9a962]/5 to-transparent blur-3xl"
-        animate={{
-          scale: [1, 1.1, 1],
-          opacity: [0.3, 0.5, 0.3],
-        }}
-        transition={{ duration: 8, repeat: Infinity, ease: 'easeInOut' }}
-      />
+        aria-hidden="true"
+        className="absolute inset-0"
+        initial={false}
+        animate={{ opacity: fieldReady ? 0 : 1 }}
+        transition={{ duration: 1.2, ease: [0.22, 1, 0.36, 1] }}
+      >
+        <motion.div
+          ref={orbRef}
+          className="absolute top-1/4 right-1/4 w-[300px] md:w-[600px] h-[300px] md:h-[600px] rounded-full bg-gradient-to-br from-accent/20 via-accent/5 to-transparent blur-3xl"
+          initial={{ scale: 1, opacity: 0.3 }}
+          animate={orbActive ? {
+            scale: [1, 1.1, 1],
+            opacity: [0.3, 0.5, 0.3],
+          } : { scale: 1, opacity: 0.4 }}
+          transition={orbActive ? { duration: 8, repeat: Infinity, ease: 'easeInOut' } : { duration: 1 }}
+        />
+
+        <div className="absolute inset-0 opacity-[0.03]" style={{
+          backgroundImage: `linear-gradient(rgb(var(--color-ink)) 1px, transparent 1px), linear-gradient(90deg, rgb(var(--color-ink)) 1px, transparent 1px)`,
+          backgroundSize: '80px 80px'
+        }} />
+      </motion.div>
 
-      {/* Grid lines */}
-      <div className="absolute inset-0 opacity-[0.03]" style={{
-        backgroundImage: `linear-gradient(#f5f0e8 1px, transparent 1px), linear-gradient(90deg, #f5f0e8 1px, transparent 1px)`,
-        backgroundSize: '80px 80px'
-      }} />
+      {/* Neural particle field, only with WebGL and full motion */}
+      {loops && (
+        <motion.div
+          className="absolute inset-0"
+          initial={false}
+          animate={{ opacity: fieldReady ? 1 : 0 }}
+          transition={{ duration: 1.2, ease: [0.22, 1, 0.36, 1] }}
+        >
+          <NeuralField onReadyChange={setFieldReady} />
+        </motion.div>
+      )}
 
       <div className="relative z-10 max-w-7xl mx-auto px-6 md:px-12 text-center">
         <motion.div
@@ -225,29 +206,28 @@ const Hero = () => {
           transition={{ duration: 1, delay: 0.5 }}
           className="mb-8"
         >
-          <span className="font-outfit text-xs md:text-sm tracking-[0.4em] text-[#c9a962] uppercase">
-            Intelligence Redefined
+          <span className="font-outfit text-xs md:text-sm tracking-[0.4em] text-accent uppercase">
+            {t('hero.eyebrow')}
           </span>
         </motion.div>
 
-        <h1 className="font-cormorant text-5xl sm:text-6xl md:text-7xl lg:text-8xl xl:text-9xl text-[#f5f0e8] leading-[0.9] mb-8">
-          <TextReveal delay={0.6}>Crafting</TextReveal>
+        <h1 className="font-cormorant text-5xl sm:text-6xl md:text-7xl lg:text-8xl xl:text-9xl text-ink leading-[0.9] mb-8">
+          <TextReveal delay={0.6}>{headline === 'b' ? t('experiments.hero.b.titleLine1') : t('hero.titleLine1')}</TextReveal>
           <br />
-          <span className="italic text-[#c9a962]">
-            <TextReveal delay={0.8}>Tomorrow's</TextReveal>
+          <span className="italic text-accent">
+            <TextReveal delay={0.8}>{headline === 'b' ? t('experiments.hero.b.titleLine2') : t('hero.titleLine2')}</TextReveal>
           </span>
           <br />
-          <TextReveal delay={1.0}>Intelligence</TextReveal>
+          <TextReveal delay={1.0}>{headline === 'b' ? t('experiments.hero.b.titleLine3') : t('hero.titleLine3')}</TextReveal>
         </h1>
 
         <motion.p
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ duration: 0.8, delay: 1.2 }}
-          className="font-outfit text-[#6b6b6b] text-base md:text-lg max-w-xl mx-auto mb-12 leading-relaxed"
+          className="font-outfit text-muted text-base md:text-lg max-w-xl mx-auto mb-12 leading-relaxed"
         >
-          We architect bespoke AI solutions that transform visionary enterprises
-          into the defining forces of their industries.
+          {t('hero.lead')}
         </motion.p>
 
         <motion.div
@@ -256,20 +236,28 @@ const Hero = () => {
           transition={{ duration: 0.8, delay: 1.4 }}
           className="flex flex-col sm:flex-row gap-4 justify-center"
         >
+          {/* Opens the readiness assessment; without JavaScript it still reaches the contact form */}
           <a
             href="#contact"
-            className="inline-flex items-center justify-center gap-3 bg-[#c9a962] text-[#0a0a0a] font-outfit text-sm tracking-wider px-8 py-4 hover:bg-[#f5f0e8] transition-colors duration-300"
+            aria-haspopup="dialog"
+            onClick={(e) => {
+              e.preventDefault();
+              track('cta_click', { cta: 'hero-primary' });
+              startAssessment('hero-primary');
+            }}
+            className="inline-flex items-center justify-center gap-3 bg-accent text-on-accent font-outfit text-sm tracking-wider px-8 py-4 hover:bg-ink hover:text-canvas transition-colors duration-300"
           >
-            Begin Your Journey
-            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current">
+            {cta === 'b' ? t('experiments.cta.b.primary') : t('hero.primaryCta')}
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
               <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
             </svg>
           </a>
           <a
             href="#work"
-            className="inline-flex items-center justify-center gap-3 border border-[#252525] text-[#f5f0e8] font-outfit text-sm tracking-wider px-8 py-4 hover:border-[#c9a962] hover:text-[#c9a962] transition-colors duration-300"
+            onClick={() => track('cta_click', { cta: 'hero-secondary' })}
+            className="inline-flex items-center justify-center gap-3 border border-line text-ink font-outfit text-sm tracking-wider px-8 py-4 hover:border-accent hover:text-accent transition-colors duration-300"
           >
-            View Our Work
+            {t('hero.secondaryCta')}
           </a>
         </motion.div>
       </div>
@@ -282,9 +270,10 @@ const Hero = () => {
         className="absolute bottom-12 left-1/2 -translate-x-1/2"
       >
         <motion.div
-          animate={{ y: [0, 8, 0] }}
-          transition={{ duration: 1.5, repeat: Infinity }}
-          className="w-[1px] h-16 bg-gradient-to-b from-[#c9a962] to-transparent"
+          ref={indicatorRef}
+          animate={indicatorActive ? { y: [0, 8, 0] } : { y: 0 }}
+          transition={indicatorActive ? { duration: 1.5, repeat: Infinity } : { duration: 0.3 }}
+          className="w-[1px] h-16 bg-gradient-to-b from-accent to-transparent"
         />
       </motion.div>
     </section>
@@ -293,35 +282,13 @@ const Hero = () => {
 
 // Services section
 const Services = () => {
-  const services = [
-    {
-      title: 'Strategic AI Consulting',
-      description: 'Navigate the complex AI landscape with clarity. We craft comprehensive roadmaps that align cutting-edge technology with your business objectives.'
-    },
-    {
-      title: 'Custom Model Development',
-      description: 'Bespoke machine learning solutions engineered for your unique challenges. From neural architectures to deployment, we build intelligence that scales.'
-    },
-    {
-      title: 'Intelligent Automation',
-      description: 'Transform operations with cognitive workflows. Our automation systems learn, adapt, and evolve—delivering efficiency that compounds over time.'
-    },
-    {
-      title: 'Data Architecture',
-      description: 'The foundation of intelligence is data. We design robust pipelines and architectures that turn raw information into strategic advantage.'
-    },
-    {
-      title: 'AI Integration',
-      description: 'Seamlessly embed intelligence into your existing systems. Our integration expertise ensures AI enhances rather than disrupts your operations.'
-    },
-    {
-      title: 'Ongoing Partnership',
-      description: 'AI excellence demands continuous refinement. Our dedicated teams provide monitoring, optimization, and evolution of your AI investments.'
-    }
-  ];
+  const [ref, inView] = useInView({ threshold: 0.2 });
+  const { t } = useI18n();
+  const { services } = useContent();
+  useSectionView('services', inView);
 
   return (
-    <section id="services" className="py-24 md:py-32 relative">
+    <section ref={ref} id="services" className="py-24 md:py-32 relative">
       <div className="max-w-7xl mx-auto px-6 md:px-12">
         <div className="mb-16 md:mb-24">
           <motion.span
@@ -329,21 +296,21 @@ const Services = () => {
             whileInView={{ opacity: 1 }}
             transition={{ duration: 0.5 }}
             viewport={{ once: true }}
-            className="font-outfit text-xs tracking-[0.4em] text-[#c9a962] uppercase block mb-4"
+            className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4"
           >
-            What We Do
+            {t('services.eyebrow')}
           </motion.span>
-          <h2 className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-[#f5f0e8] leading-tight">
-            <TextReveal>Capabilities that</TextReveal>
+          <h2 className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-ink leading-tight">
+            <TextReveal>{t('services.titleLine1')}</TextReveal>
             <br />
-            <span className="italic text-[#c9a962]"><TextReveal delay={0.2}>define excellence</TextReveal></span>
+            <span className="italic text-accent"><TextReveal delay={0.2}>{t('services.titleLine2')}</TextReveal></span>
           </h2>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-[1px] bg-[#252525]">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-[1px] bg-line">
           {services.map((service, i) => (
-            <div key={service.title} className="bg-[#0a0a0a]">
-              <ServiceCard {...service} index={i} />
+            <div key={service.slug} className="bg-canvas">
+              <ServiceCard slug={service.slug} title={service.title} description={service.description} index={i} />
             </div>
           ))}
         </div>
@@ -354,14 +321,15 @@ const Services = () => {
 
 // Stats section
 const Stats = () => {
+  const stats = useStats();
+
   return (
-    <section className="py-24 md:py-32 border-y border-[#252525]">
+    <section className="py-24 md:py-32 border-y border-line">
       <div className="max-w-7xl mx-auto px-6 md:px-12">
         <div className="grid grid-cols-2 md:grid-cols-4 gap-12 md:gap-8">
-          <Stat value="150+" label="Projects Delivered" delay={0} />
-          <Stat value="$2B+" label="Client Value Generated" delay={0.1} />
-          <Stat value="40+" label="Enterprise Partners" delay={0.2} />
-          <Stat value="99%" label="Client Retention" delay={0.3} />
+          {stats.map((stat, i) => (
+            <Stat key={stat.id} stat={stat} delay={i * 0.1} />
+          ))}
         </div>
       </div>
     </section>
@@ -371,12 +339,9 @@ const Stats = () => {
 // Work/Portfolio section
 const Work = () => {
   const [ref, inView] = useInView();
-
-  const projects = [
-    { name: 'Meridian Finance', category: 'Predictive Analytics', year: '2024' },
-    { name: 'Vantage Health', category: 'Diagnostic AI', year: '2024' },
-    { name: 'Atlas Logistics', category: 'Supply Chain Intelligence', year: '2023' },
-  ];
+  const { t } = useI18n();
+  useSectionView('work', inView);
+  const { projects } = useContent();
 
   return (
     <section id="work" className="py-24 md:py-32">
@@ -388,59 +353,30 @@ const Work = () => {
               whileInView={{ opacity: 1 }}
               transition={{ duration: 0.5 }}
               viewport={{ once: true }}
-              className="font-outfit text-xs tracking-[0.4em] text-[#c9a962] uppercase block mb-4"
+              className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4"
             >
-              Selected Work
+              {t('work.eyebrow')}
             </motion.span>
-            <h2 className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-[#f5f0e8] leading-tight">
-              <TextReveal>Intelligence in</TextReveal>
+            <h2 className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-ink leading-tight">
+              <TextReveal>{t('work.titleLine1')}</TextReveal>
               <br />
-              <span className="italic text-[#c9a962]"><TextReveal delay={0.2}>action</TextReveal></span>
+              <span className="italic text-accent"><TextReveal delay={0.2}>{t('work.titleLine2')}</TextReveal></span>
             </h2>
           </div>
-          <a
-            href="#"
-            className="font-outfit text-sm text-[#6b6b6b] hover:text-[#c9a962] tracking-wider transition-colors duration-300 flex items-center gap-2"
+          <LocaleLink
+            to="/work"
+            className="font-outfit text-sm text-muted hover:text-accent tracking-wider transition-colors duration-300 flex items-center gap-2"
           >
-            View All Projects
-            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current">
+            {t('work.viewAll')}
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
               <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
             </svg>
-          </a>
+          </LocaleLink>
         </div>
 
-        <div ref={ref} className="space-y-[1px] bg-[#252525]">
+        <div ref={ref} className="space-y-[1px] bg-line">
           {projects.map((project, i) => (
-            <motion.a
-              key={project.name}
-              href="#"
-              initial={{ opacity: 0 }}
-              animate={inView ? { opacity: 1 } : { opacity: 0 }}
-              transition={{ duration: 0.6, delay: i * 0.15 }}
-              className="group block bg-[#0a0a0a] p-6 md:p-8 hover:bg-[#0f0f0f] transition-colors duration-300"
-            >
-              <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
-                <div className="flex flex-col md:flex-row md:items-center gap-2 md:gap-8">
-                  <span className="font-cormorant text-3xl md:text-4xl text-[#f5f0e8] group-hover:text-[#c9a962] transition-colors duration-300">
-                    {project.name}
-                  </span>
-                  <span className="font-outfit text-sm text-[#6b6b6b] tracking-wider">
-                    {project.category}
-                  </span>
-                </div>
-                <div className="flex items-center gap-6">
-                  <span className="font-outfit text-sm text-[#6b6b6b]">{project.year}</span>
-                  <motion.div
-                    className="text-[#c9a962] opacity-0 group-hover:opacity-100 transition-opacity duration-300"
-                    whileHover={{ x: 4 }}
-                  >
-                    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" className="stroke-current">
-                      <path d="M5 12h14M13 6l6 6-6 6" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-                    </svg>
-                  </motion.div>
-                </div>
-              </div>
-            </motion.a>
+            <ProjectRow key={project.slug} project={project} index={i} visible={inView} />
           ))}
         </div>
       </div>
@@ -448,12 +384,49 @@ const Work = () => {
   );
 };
 
+// Testimonials section
+const Testimonials = () => {
+  const { t } = useI18n();
+  const { testimonials, clients } = useContent();
+
+  return (
+    <section aria-labelledby="testimonials-title" className="py-24 md:py-32 border-t border-line overflow-hidden">
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <div className="mb-16 md:mb-20">
+          <motion.span
+            initial={{ opacity: 0 }}
+            whileInView={{ opacity: 1 }}
+            transition={{ duration: 0.5 }}
+            viewport={{ once: true }}
+            className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4"
+          >
+            {t('testimonials.eyebrow')}
+          </motion.span>
+          <h2 id="testimonials-title" className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-ink leading-tight">
+            <TextReveal>{t('testimonials.titleLine1')}</TextReveal>
+            <br />
+            <span className="italic text-accent"><TextReveal delay={0.2}>{t('testimonials.titleLine2')}</TextReveal></span>
+          </h2>
+        </div>
+        <TestimonialCarousel testimonials={testimonials} />
+      </div>
+
+      <div className="mt-24 md:mt-32">
+        <h3 className="font-outfit text-xs tracking-[0.3em] text-muted uppercase text-center mb-10">{t('testimonials.clients')}</h3>
+        <LogoMarquee clients={clients} />
+      </div>
+    </section>
+  );
+};
+
 // About section
 const About = () => {
   const [ref, inView] = useInView();
+  const { t } = useI18n();
+  useSectionView('about', inView);
 
   return (
-    <section id="about" className="py-24 md:py-32 bg-[#0f0f0f]">
+    <section id="about" className="py-24 md:py-32 bg-surface">
       <div className="max-w-7xl mx-auto px-6 md:px-12">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-16 md:gap-24">
           <div>
@@ -462,15 +435,15 @@ const About = () => {
               whileInView={{ opacity: 1 }}
               transition={{ duration: 0.5 }}
               viewport={{ once: true }}
-              className="font-outfit text-xs tracking-[0.4em] text-[#c9a962] uppercase block mb-4"
+              className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4"
             >
-              Our Philosophy
+              {t('about.eyebrow')}
             </motion.span>
-            <h2 className="font-cormorant text-4xl md:text-5xl text-[#f5f0e8] leading-tight mb-8">
-              <TextReveal>Where artistry</TextReveal>
+            <h2 className="font-cormorant text-4xl md:text-5xl text-ink leading-tight mb-8">
+              <TextReveal>{t('about.titleLine1')}</TextReveal>
               <br />
-              <TextReveal delay={0.2}>meets</TextReveal>{' '}
-              <span className="italic text-[#c9a962]"><TextReveal delay={0.3}>algorithm</TextReveal></span>
+              <TextReveal delay={0.2}>{t('about.titleLine2')}</TextReveal>{' '}
+              <span className="italic text-accent"><TextReveal delay={0.3}>{t('about.titleLine3')}</TextReveal></span>
             </h2>
           </div>
 
@@ -481,26 +454,22 @@ const About = () => {
             transition={{ duration: 0.8, delay: 0.3 }}
             className="space-y-6"
           >
-            <p className="font-outfit text-[#a0a0a0] text-base md:text-lg leading-relaxed">
-              We believe artificial intelligence is more than code—it's an art form.
-              Every solution we craft is a symphony of data, design, and deep expertise,
-              composed to elevate your enterprise to unprecedented heights.
+            <p className="font-outfit text-soft text-base md:text-lg leading-relaxed">
+              {t('about.lead')}
             </p>
-            <p className="font-outfit text-[#6b6b6b] leading-relaxed">
-              Our team of researchers, engineers, and strategists share an obsession
-              with excellence. We don't just implement AI; we architect intelligence
-              that becomes your competitive moat—elegant, powerful, and distinctly yours.
+            <p className="font-outfit text-muted leading-relaxed">
+              {t('about.body')}
             </p>
             <div className="pt-6">
-              <a
-                href="#contact"
-                className="inline-flex items-center gap-3 font-outfit text-sm text-[#c9a962] tracking-wider hover:text-[#f5f0e8] transition-colors duration-300"
+              <LocaleLink
+                to="/team"
+                className="inline-flex items-center gap-3 font-outfit text-sm text-accent tracking-wider hover:text-ink transition-colors duration-300"
               >
-                Meet Our Team
-                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current">
+                {t('about.cta')}
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
                   <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
                 </svg>
-              </a>
+              </LocaleLink>
             </div>
           </motion.div>
         </div>
@@ -509,14 +478,452 @@ const About = () => {
   );
 };
 
+// Consultation form
+const fieldClass = (invalid: boolean) =>
+  `w-full bg-transparent border px-6 py-4 font-outfit text-ink placeholder-muted focus:outline-none transition-colors duration-300 ${
+    invalid ? 'border-danger focus:border-danger' : 'border-line focus:border-accent'
+  }`;
+
+const FieldError = ({ id, message }: { id: string; message?: string }) => (
+  <AnimatePresence>
+    {message && (
+      <motion.p
+        id={id}
+        role="alert"
+        initial={{ opacity: 0, y: -4 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.2 }}
+        className="mt-2 font-outfit text-xs text-danger tracking-wide"
+      >
+        {message}
+      </motion.p>
+    )}
+  </AnimatePresence>
+);
+
+const ConsultationForm = ({ adapter = defaultConsultationAdapter }: { adapter?: SubmissionAdapter }) => {
+  const { t } = useI18n();
+  const { track } = useAnalytics();
+  const { result: assessment, clear: clearAssessment } = useAssessment();
+  const { optOut } = useExperiments();
+  const cta = useVariant('cta');
+  const [values, setValues] = useState<ConsultationValues>(emptyConsultation);
+  const [errors, setErrors] = useState<ConsultationErrors>({});
+  const [touched, setTouched] = useState<Partial<Record<ConsultationField, boolean>>>({});
+  const [honeypot, setHoneypot] = useState('');
+  const [state, dispatch] = useReducer(submissionReducer, { status: 'idle' });
+  const renderedAt = useRef(Date.now());
+  const inFlight = useRef<AbortController | null>(null);
+
+  useEffect(() => () => inFlight.current?.abort(), []);
+
+  // A finished assessment fills in whatever the visitor has not typed yet
+  useEffect(() => {
+    if (!assessment) return;
+    const { answers, score, level } = assessment;
+    const goals = answers.goals.map((goal) => t(`assessment.questions.goals.options.${goal}`)).join(t('assessment.listSeparator'));
+    setValues((current) => ({
+      ...current,
+      budget: current.budget || answers.budget || '',
+      timeline: current.timeline || answers.timeline || '',
+      brief:
+        current.brief ||
+        t('assessment.brief', {
+          score,
+          level: t(`assessment.levels.${level}.title`),
+          industry: answers.industry ? t(`assessment.questions.industry.options.${answers.industry}`) : '—',
+          goals,
+        }),
+    }));
+  }, [assessment]);
+
+  const update = (field: ConsultationField) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => {
+    const next = { ...values, [field]: e.target.value };
+    setValues(next);
+    if (touched[field]) setErrors((prev) => ({ ...prev, [field]: validateField(field, next) }));
+  };
+
+  const blur = (field: ConsultationField) => () => {
+    setTouched((prev) => ({ ...prev, [field]: true }));
+    setErrors((prev) => ({ ...prev, [field]: validateField(field, values) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    // Duplicate-submit protection: only one request may be in flight
+    if (inFlight.current || state.status === 'success') return;
+
+    const nextErrors = validateConsultation(values);
+    setErrors(nextErrors);
+    setTouched({ name: true, email: true, company: true, budget: true, timeline: true, brief: true });
+    const firstInvalid = Object.keys(nextErrors)[0];
+    if (firstInvalid) {
+      track('consultation_submit', { outcome: 'invalid' });
+      e.currentTarget.querySelector<HTMLElement>(`[name="${firstInvalid}"]`)?.focus();
+      return;
+    }
+
+    dispatch({ type: 'SUBMIT' });
+
+    // Bots get a convincing success without anything being sent
+    if (isLikelySpam({ honeypot, renderedAt: renderedAt.current })) {
+      dispatch({ type: 'RESOLVE' });
+      return;
+    }
+
+    const controller = new AbortController();
+    inFlight.current = controller;
+    try {
+      const result = await adapter.submit(toConsultationRequest(values, assessment ?? undefined), controller.signal);
+      if (result.ok) {
+        dispatch({ type: 'RESOLVE', reference: result.reference, queued: result.queued });
+        track('consultation_submit', { outcome: 'success', budget: values.budget || undefined, timeline: values.timeline || undefined });
+        // Someone already in conversation with us sees the standard site from now on
+        optOut();
+      } else {
+        track('consultation_submit', { outcome: 'failure' });
+        dispatch({
+          type: 'REJECT',
+          message:
+            result.message ??
+            t(result.error === 'network' ? 'contact.unreachable' : result.error === 'unavailable' ? 'contact.unavailable' : 'contact.failure'),
+        });
+      }
+    } catch {
+      if (!controller.signal.aborted) {
+        track('consultation_submit', { outcome: 'failure' });
+        dispatch({ type: 'REJECT', message: t('contact.failure') });
+      }
+    } finally {
+      inFlight.current = null;
+    }
+  };
+
+  const reset = () => {
+    setValues(emptyConsultation);
+    setErrors({});
+    setTouched({});
+    renderedAt.current = Date.now();
+    dispatch({ type: 'RESET' });
+  };
+
+  const describedBy = (field: ConsultationField) => (errors[field] ? `consultation-${field}-error` : undefined);
+  const errorText = (field: ConsultationField) => {
+    const key = errors[field];
+    return key && t(key, { min: BRIEF_MIN_LENGTH, max: BRIEF_MAX_LENGTH });
+  };
+  const submitting = state.status === 'submitting';
+  const queued = state.status === 'success' && state.delivery === 'queued';
+
+  // Follows a request queued offline until the service worker reports back
+  useEffect(() => {
+    if (!queued) return;
+    return onQueueMessage((message) => {
+      if (message.type === 'consultation-delivered') dispatch({ type: 'DELIVER', reference: message.reference });
+      if (message.type === 'consultation-rejected') dispatch({ type: 'BOUNCE', message: message.message ?? t('contact.failure') });
+    });
+  }, [queued]);
+
+  return (
+    <AnimatePresence mode="wait" initial={false}>
+      {state.status === 'success' ? (
+        <motion.div
+          key="success"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.5, ease: [0.22, 1, 0.36, 1] }}
+          className="max-w-2xl mx-auto border border-line px-6 py-12 md:px-12"
+        >
+          <div role="status">
+            <span className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4">
+              {t('contact.successEyebrow')}
+            </span>
+            <p className="font-cormorant text-3xl md:text-4xl text-ink mb-4">
+              {t('contact.successTitle', { name: values.name.trim().split(' ')[0] || t('contact.successFallbackName') })}
+            </p>
+            <p className="font-outfit text-muted leading-relaxed mb-8">
+              {state.delivery === 'queued' ? (
+                t('contact.queued')
+              ) : (
+                <>
+                  {state.delivery === 'delivered' && <>{t('contact.delivered')} </>}
+                  {t('contact.successBody')}
+                  {state.reference && <> {t('contact.successReference', { reference: state.reference })}</>}
+                </>
+              )}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={reset}
+            className="font-outfit text-sm text-accent hover:text-ink tracking-wider transition-colors duration-300"
+          >
+            {t('contact.sendAnother')}
+          </button>
+          {!queued && (
+            <BookingScheduler attendee={{ name: values.name.trim(), email: values.email.trim(), reference: state.reference }} />
+          )}
+        </motion.div>
+      ) : (
+        <motion.form
+          key="form"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0, y: -20 }}
+          transition={{ duration: 0.4 }}
+          className="max-w-2xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-6 text-start"
+          onSubmit={handleSubmit}
+          noValidate
+          aria-busy={submitting}
+        >
+          {assessment && (
+            <div className="md:col-span-2 flex items-center justify-between gap-4 border border-accent/40 px-6 py-4">
+              <p className="font-outfit text-sm text-soft">{t('assessment.included', { score: assessment.score })}</p>
+              <button
+                type="button"
+                onClick={clearAssessment}
+                className="font-outfit text-xs tracking-wider text-muted hover:text-accent transition-colors duration-300"
+              >
+                {t('assessment.remove')}
+              </button>
+            </div>
+          )}
+          <div>
+            <label htmlFor="consultation-name" className="sr-only">{t('contact.labels.name')}</label>
+            <input
+              id="consultation-name"
+              name="name"
+              type="text"
+              autoComplete="name"
+              placeholder={t('contact.fields.name')}
+              value={values.name}
+              onChange={update('name')}
+              onBlur={blur('name')}
+              aria-invalid={!!errors.name}
+              aria-describedby={describedBy('name')}
+              className={fieldClass(!!errors.name)}
+            />
+            <FieldError id="consultation-name-error" message={errorText('name')} />
+          </div>
+          <div>
+            <label htmlFor="consultation-email" className="sr-only">{t('contact.labels.email')}</label>
+            <input
+              id="consultation-email"
+              name="email"
+              type="email"
+              autoComplete="email"
+              placeholder={t('contact.fields.email')}
+              value={values.email}
+              onChange={update('email')}
+              onBlur={blur('email')}
+              aria-invalid={!!errors.email}
+              aria-describedby={describedBy('email')}
+              className={fieldClass(!!errors.email)}
+            />
+            <FieldError id="consultation-email-error" message={errorText('email')} />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="consultation-company" className="sr-only">{t('contact.labels.company')}</label>
+            <input
+              id="consultation-company"
+              name="company"
+              type="text"
+              autoComplete="organization"
+              placeholder={t('contact.fields.company')}
+              value={values.company}
+              onChange={update('company')}
+              onBlur={blur('company')}
+              aria-invalid={!!errors.company}
+              aria-describedby={describedBy('company')}
+              className={fieldClass(!!errors.company)}
+            />
+            <FieldError id="consultation-company-error" message={errorText('company')} />
+          </div>
+          <div>
+            <label htmlFor="consultation-budget" className="sr-only">{t('contact.labels.budget')}</label>
+            <select
+              id="consultation-budget"
+              name="budget"
+              value={values.budget}
+              onChange={update('budget')}
+              onBlur={blur('budget')}
+              aria-invalid={!!errors.budget}
+              aria-describedby={describedBy('budget')}
+              className={`${fieldClass(!!errors.budget)} appearance-none ${values.budget ? '' : 'text-muted'}`}
+            >
+              <option value="" disabled>{t('contact.fields.budget')}</option>
+              {budgetBands.map((band) => (
+                <option key={band} value={band} className="bg-canvas text-ink">{t(`contact.budget.${band}`)}</option>
+              ))}
+            </select>
+            <FieldError id="consultation-budget-error" message={errorText('budget')} />
+          </div>
+          <div>
+            <label htmlFor="consultation-timeline" className="sr-only">{t('contact.labels.timeline')}</label>
+            <select
+              id="consultation-timeline"
+              name="timeline"
+              value={values.timeline}
+              onChange={update('timeline')}
+              onBlur={blur('timeline')}
+              aria-invalid={!!errors.timeline}
+              aria-describedby={describedBy('timeline')}
+              className={`${fieldClass(!!errors.timeline)} appearance-none ${values.timeline ? '' : 'text-muted'}`}
+            >
+              <option value="" disabled>{t('contact.fields.timeline')}</option>
+              {timelines.map((option) => (
+                <option key={option} value={option} className="bg-canvas text-ink">{t(`contact.timeline.${option}`)}</option>
+              ))}
+            </select>
+            <FieldError id="consultation-timeline-error" message={errorText('timeline')} />
+          </div>
+          <div className="md:col-span-2">
+            <label htmlFor="consultation-brief" className="sr-only">{t('contact.labels.brief')}</label>
+            <textarea
+              id="consultation-brief"
+              name="brief"
+              rows={5}
+              maxLength={BRIEF_MAX_LENGTH}
+              placeholder={t('contact.fields.brief')}
+              value={values.brief}
+              onChange={update('brief')}
+              onBlur={blur('brief')}
+              aria-invalid={!!errors.brief}
+              aria-describedby={describedBy('brief')}
+              className={`${fieldClass(!!errors.brief)} resize-none`}
+            />
+            <FieldError id="consultation-brief-error" message={errorText('brief')} />
+          </div>
+
+          {/* Honeypot: hidden from people and assistive tech, irresistible to bots */}
+          <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+            <label htmlFor={`consultation-${HONEYPOT_FIELD}`}>Website</label>
+            <input
+              id={`consultation-${HONEYPOT_FIELD}`}
+              name={HONEYPOT_FIELD}
+              type="text"
+              tabIndex={-1}
+              autoComplete="off"
+              value={honeypot}
+              onChange={(e) => setHoneypot(e.target.value)}
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full bg-accent text-on-accent font-outfit text-sm tracking-wider px-8 py-4 hover:bg-ink hover:text-canvas transition-colors duration-300 flex items-center justify-center gap-3 disabled:opacity-60 disabled:cursor-wait"
+            >
+              {submitting ? t('contact.submitting') : cta === 'b' ? t('experiments.cta.b.submit') : t('contact.submit')}
+              {submitting ? (
+                <motion.span
+                  className="w-4 h-4 border border-current border-t-transparent rounded-full"
+                  animate={{ rotate: 360 }}
+                  transition={{ duration: 0.8, repeat: Infinity, ease: 'linear' }}
+                />
+              ) : (
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
+                  <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                </svg>
+              )}
+            </button>
+            <AnimatePresence>
+              {state.status === 'failure' && (
+                <motion.p
+                  role="alert"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                  className="mt-4 font-outfit text-sm text-danger text-center"
+                >
+                  {state.message}{' '}
+                  {/* Email always works, whatever went wrong with the form */}
+                  {t('contact.emailFallback')}{' '}
+                  <a href={`mailto:${company.email}`} className="underline hover:text-ink transition-colors duration-300">
+                    {company.email}
+                  </a>
+                </motion.p>
+              )}
+            </AnimatePresence>
+          </div>
+        </motion.form>
+      )}
+    </AnimatePresence>
+  );
+};
+
+// Latest insights teaser
+const LatestInsights = () => {
+  const [ref, inView] = useInView();
+  const { t, locale } = useI18n();
+  useSectionView('insights', inView);
+  const latest = localizeInsights(locale).slice(0, 3);
+
+  if (latest.length === 0) return null;
+
+  return (
+    <section id="insights" className="py-24 md:py-32">
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between mb-16 md:mb-24 gap-6">
+          <div>
+            <motion.span
+              initial={{ opacity: 0 }}
+              whileInView={{ opacity: 1 }}
+              transition={{ duration: 0.5 }}
+              viewport={{ once: true }}
+              className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4"
+            >
+              {t('insights.eyebrow')}
+            </motion.span>
+            <h2 className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-ink leading-tight">
+              <TextReveal>{t('insights.latestLine1')}</TextReveal>
+              <br />
+              <span className="italic text-accent"><TextReveal delay={0.2}>{t('insights.latestLine2')}</TextReveal></span>
+            </h2>
+          </div>
+          <LocaleLink
+            to="/insights"
+            className="font-outfit text-sm text-muted hover:text-accent tracking-wider transition-colors duration-300 flex items-center gap-2"
+          >
+            {t('insights.viewAll')}
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
+              <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+            </svg>
+          </LocaleLink>
+        </div>
+
+        <ul ref={ref} className="grid grid-cols-1 md:grid-cols-3 gap-[1px] bg-line border border-line">
+          {latest.map((post, i) => (
+            <motion.li
+              key={post.slug}
+              initial={{ opacity: 0, y: 40 }}
+              animate={inView ? { opacity: 1, y: 0 } : { opacity: 0, y: 40 }}
+              transition={{ duration: 0.8, delay: i * 0.1, ease: [0.22, 1, 0.36, 1] }}
+            >
+              <InsightCard post={post} />
+            </motion.li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+};
+
 // Contact section
 const Contact = () => {
   const [ref, inView] = useInView();
+  const { t } = useI18n();
+  useSectionView('contact', inView);
 
   return (
     <section id="contact" className="py-24 md:py-32 relative overflow-hidden">
       {/* Background glow */}
-      <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-[800px] h-[400px] bg-gradient-to-t from-[#c9a962]/10 to-transparent blur-3xl" />
+      <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-[800px] h-[400px] bg-gradient-to-t from-accent/10 to-transparent blur-3xl" />
 
       <div className="max-w-4xl mx-auto px-6 md:px-12 text-center relative z-10">
         <motion.span
@@ -524,15 +931,15 @@ const Contact = () => {
           whileInView={{ opacity: 1 }}
           transition={{ duration: 0.5 }}
           viewport={{ once: true }}
-          className="font-outfit text-xs tracking-[0.4em] text-[#c9a962] uppercase block mb-4"
+          className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4"
         >
-          Let's Connect
+          {t('contact.eyebrow')}
         </motion.span>
 
-        <h2 className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-[#f5f0e8] leading-tight mb-8">
-          <TextReveal>Ready to redefine</TextReveal>
+        <h2 className="font-cormorant text-4xl md:text-5xl lg:text-6xl text-ink leading-tight mb-8">
+          <TextReveal>{t('contact.titleLine1')}</TextReveal>
           <br />
-          <span className="italic text-[#c9a962]"><TextReveal delay={0.2}>what's possible?</TextReveal></span>
+          <span className="italic text-accent"><TextReveal delay={0.2}>{t('contact.titleLine2')}</TextReveal></span>
         </h2>
 
         <motion.p
@@ -540,48 +947,30 @@ const Contact = () => {
           initial={{ opacity: 0, y: 20 }}
           animate={inView ? { opacity: 1, y: 0 } : { opacity: 0, y: 20 }}
           transition={{ duration: 0.6, delay: 0.3 }}
-          className="font-outfit text-[#6b6b6b] text-base md:text-lg max-w-xl mx-auto mb-12"
+          className="font-outfit text-muted text-base md:text-lg max-w-xl mx-auto mb-12"
         >
-          Every transformative partnership begins with a conversation.
-          Share your vision, and let's explore how AI can amplify your ambitions.
+          {t('contact.lead')}
         </motion.p>
 
-        <motion.form
+        <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={inView ? { opacity: 1, y: 0 } : { opacity: 0, y: 20 }}
           transition={{ duration: 0.6, delay: 0.4 }}
-          className="max-w-md mx-auto space-y-6"
-          onSubmit={(e) => e.preventDefault()}
         >
-          <div>
-            <input
-              type="email"
-              placeholder="your@email.com"
-              className="w-full bg-transparent border border-[#252525] px-6 py-4 font-outfit text-[#f5f0e8] placeholder-[#6b6b6b] focus:border-[#c9a962] focus:outline-none transition-colors duration-300"
-            />
-          </div>
-          <button
-            type="submit"
-            className="w-full bg-[#c9a962] text-[#0a0a0a] font-outfit text-sm tracking-wider px-8 py-4 hover:bg-[#f5f0e8] transition-colors duration-300 flex items-center justify-center gap-3"
-          >
-            Request Consultation
-            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current">
-              <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
-            </svg>
-          </button>
-        </motion.form>
+          <ConsultationForm />
+        </motion.div>
 
         <motion.div
           initial={{ opacity: 0 }}
           animate={inView ? { opacity: 1 } : { opacity: 0 }}
           transition={{ duration: 0.6, delay: 0.6 }}
-          className="mt-16 flex flex-col md:flex-row items-center justify-center gap-8 md:gap-16 text-[#6b6b6b]"
+          className="mt-16 flex flex-col md:flex-row items-center justify-center gap-8 md:gap-16 text-muted"
         >
-          <a href="mailto:hello@nexusai.com" className="font-outfit text-sm hover:text-[#c9a962] transition-colors duration-300">
-            hello@nexusai.com
+          <a href={`mailto:${company.email}`} className="font-outfit text-sm hover:text-accent transition-colors duration-300">
+            {company.email}
           </a>
-          <span className="hidden md:block w-[1px] h-4 bg-[#252525]" />
-          <span className="font-outfit text-sm">New York · London · Singapore</span>
+          <span className="hidden md:block w-[1px] h-4 bg-line" />
+          <span className="font-outfit text-sm">{t('contact.offices')}</span>
         </motion.div>
       </div>
     </section>
@@ -590,32 +979,41 @@ const Contact = () => {
 
 // Footer
 const Footer = () => {
+  const { t } = useI18n();
+  const { openPreferences } = useConsent();
+  const legalLink = 'font-outfit text-xs text-muted/80 hover:text-accent transition-colors duration-300';
+
   return (
-    <footer className="py-12 border-t border-[#252525]">
+    <footer className="py-12 border-t border-line">
       <div className="max-w-7xl mx-auto px-6 md:px-12">
         <div className="flex flex-col md:flex-row items-center justify-between gap-6">
-          <a href="#" className="font-cormorant text-xl text-[#f5f0e8]">
-            Nexus<span className="text-[#c9a962]">AI</span>
-          </a>
+          <LocaleLink to="/" className="font-cormorant text-xl text-ink">
+            Nexus<span className="text-accent">AI</span>
+          </LocaleLink>
 
           <div className="flex items-center gap-8">
-            {['LinkedIn', 'Twitter', 'Instagram'].map((social) => (
+            {company.socials.map((social) => (
               <a
-                key={social}
-                href="#"
-                className="font-outfit text-xs text-[#6b6b6b] hover:text-[#c9a962] tracking-wider transition-colors duration-300"
+                key={social.label}
+                href={social.href}
+                className="font-outfit text-xs text-muted hover:text-accent tracking-wider transition-colors duration-300"
               >
-                {social}
+                {social.label}
               </a>
             ))}
           </div>
         </div>
 
-        <div className="mt-8 pt-8 border-t border-[#1a1a1a] flex flex-col md:flex-row items-center justify-between gap-4">
-          <span className="font-outfit text-xs text-[#4a4a4a]">
-            © 2024 NexusAI. All rights reserved.
+        <div className="mt-8 pt-8 border-t border-line/70 flex flex-col md:flex-row items-center justify-between gap-4">
+          <span className="font-outfit text-xs text-muted/80">
+            {t('footer.rights', { year: 2024 })}
           </span>
-          <span className="font-outfit text-xs text-[#3a3a3a]">
+          <nav aria-label={t('footer.legal')} className="flex items-center gap-6">
+            <LocaleLink to="/privacy" className={legalLink}>{t('footer.privacy')}</LocaleLink>
+            <LocaleLink to="/terms" className={legalLink}>{t('footer.terms')}</LocaleLink>
+            <button type="button" onClick={openPreferences} className={legalLink}>{t('footer.cookies')}</button>
+          </nav>
+          <span className="font-outfit text-xs text-muted/60">
             Requested by @vladyy__01 · Built by @clonkbot
           </span>
         </div>
@@ -624,18 +1022,118 @@ const Footer = () => {
   );
 };
 
-// Main App
-function App() {
+// Reports a page view for every new path
+const PageViewTracker = () => {
+  const { pathname } = useLocation();
+  const { track } = useAnalytics();
+
+  useEffect(() => {
+    track('page_view', { locale: localeFromPath(pathname) });
+  }, [pathname, track]);
+
+  return null;
+};
+
+// Scrolls to the hash target after navigation, or to the top for a new page
+const ScrollManager = () => {
+  const { pathname, hash, key, state } = useLocation();
+  const { reduced } = useMotionSettings();
+
+  useEffect(() => {
+    // In-page URL updates such as filters and open profiles keep the scroll position
+    if ((state as { preserveScroll?: boolean } | null)?.preserveScroll) return;
+    if (hash) {
+      requestAnimationFrame(() => scrollToSection(hash.slice(1), { smooth: !reduced }));
+    } else {
+      window.scrollTo(0, 0);
+    }
+    // Only navigation should scroll; toggling motion must not jump the page.
+    // key changes when the same section link is followed twice.
+  }, [pathname, hash, key]);
+
+  return null;
+};
+
+// Home page
+const Home = () => {
+  const { t } = useI18n();
+
   return (
-    <div className="min-h-screen bg-[#0a0a0a] text-[#f5f0e8] font-outfit antialiased">
-      <Navigation />
+    <>
+      <Seo description={t('hero.lead')} jsonLd={[organizationJsonLd()]} />
       <Hero />
       <Services />
       <Stats />
       <Work />
+      <Testimonials />
       <About />
+      <LatestInsights />
       <Contact />
-      <Footer />
+    </>
+  );
+};
+
+// Chrome shared by every page of one locale
+const LocaleLayout = ({ locale }: { locale: Locale }) => (
+  <I18nProvider locale={locale}>
+    <Navigation />
+    <main id="main" tabIndex={-1} className="focus:outline-none">
+      <Outlet />
+    </main>
+    <Footer />
+    <ConsentBanner />
+    <ConsentPreferences />
+    <AssessmentWizard />
+    <ChatWidget />
+    <PreviewBanner />
+  </I18nProvider>
+);
+
+const pageRoutes = (
+  <>
+    <Route index element={<Home />} />
+    <Route path="work" element={<WorkIndex />} />
+    <Route path="work/:slug" element={<CaseStudy />} />
+    <Route path="team" element={<TeamPage />} />
+    <Route path="insights" element={<InsightsIndex />} />
+    <Route path="insights/:slug" element={<InsightArticle />} />
+    <Route path="services/:slug" element={<ServicePage />} />
+    <Route path="privacy" element={<LegalPage slug="privacy" />} />
+    <Route path="terms" element={<LegalPage slug="terms" />} />
+    <Route path="*" element={<NotFound />} />
+  </>
+);
+
+// Main App
+function App() {
+  // Runs after every component's first effects, so the whole tree hydrated first
+  useEffect(() => endHydration(), []);
+
+  return (
+    <div className="min-h-screen bg-canvas text-ink font-outfit antialiased">
+      <ThemeProvider>
+        <MotionProvider>
+          <ConsentProvider>
+            <AnalyticsProvider>
+              <AssessmentProvider>
+                <PreviewProvider>
+                  <ExperimentProvider>
+                    <ScrollManager />
+                    <PageViewTracker />
+                    <Routes>
+                      {locales.map(({ code }) => (
+                        <Route key={code} path={code === defaultLocale ? '/' : `/${code}`} element={<LocaleLayout locale={code} />}>
+                          {pageRoutes}
+                        </Route>
+                      ))}
+                    </Routes>
+                  </ExperimentProvider>
+                </PreviewProvider>
+              </AssessmentProvider>
+            </AnalyticsProvider>
+          </ConsentProvider>
+        </MotionProvider>
+      </ThemeProvider>
     </div>
   );
 }
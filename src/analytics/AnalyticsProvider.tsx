@@ -0,0 +1,69 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { isHydrating } from '../hydration';
+import { hasConsent } from '../consent';
+import type { AnalyticsEvents, EventName, SectionId } from './events';
+import { defaultSinks, type AnalyticsSink } from './sinks';
+
+interface Analytics {
+  track: <Name extends EventName>(name: Name, props: AnalyticsEvents[Name]) => void;
+  // The browser sent Do-Not-Track or Global Privacy Control; nothing is tracked
+  doNotTrack: boolean;
+}
+
+const readDoNotTrack = () => {
+  if (typeof navigator === 'undefined') return false;
+  const { doNotTrack, globalPrivacyControl } = navigator as Navigator & { globalPrivacyControl?: boolean };
+  return doNotTrack === '1' || globalPrivacyControl === true;
+};
+
+const AnalyticsContext = createContext<Analytics>({
+  track: () => {},
+  doNotTrack: false,
+});
+
+export const AnalyticsProvider = ({ children, sinks }: { children: ReactNode; sinks?: AnalyticsSink[] }) => {
+  const [activeSinks] = useState(() => sinks ?? defaultSinks());
+  const [doNotTrack, setDoNotTrack] = useState(() => !isHydrating() && readDoNotTrack());
+
+  useEffect(() => setDoNotTrack(readDoNotTrack()), []);
+
+  // Consent is read at send time, so events fired before the consent
+  // provider has loaded the stored choices still respect them
+  const track = useCallback<Analytics['track']>(
+    (name, props) => {
+      if (!hasConsent('analytics') || readDoNotTrack()) return;
+      const event = { name, props, path: window.location.pathname, timestamp: Date.now() };
+      activeSinks.forEach((sink) => sink.send(event));
+    },
+    [activeSinks]
+  );
+
+  useEffect(() => {
+    const flush = () => activeSinks.forEach((sink) => sink.flush?.());
+    const handleVisibility = () => document.visibilityState === 'hidden' && flush();
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [activeSinks]);
+
+  return (
+    <AnalyticsContext.Provider value={{ track, doNotTrack }}>{children}</AnalyticsContext.Provider>
+  );
+};
+
+export const useAnalytics = () => useContext(AnalyticsContext);
+
+// Reports a home-page section the first time its useInView flag turns true
+export const useSectionView = (section: SectionId, inView: boolean) => {
+  const { track } = useAnalytics();
+  const sent = useRef(false);
+
+  useEffect(() => {
+    if (!inView || sent.current) return;
+    sent.current = true;
+    track('section_view', { section });
+  }, [inView, section, track]);
+};
@@ -0,0 +1,39 @@
+// Event catalog: every event the site may send, with its properties. Nothing
+// here identifies a visitor; consultation events carry the chosen bands only.
+import type { BudgetBand, Timeline } from '../consultation';
+import type { sectionIds } from '../content';
+import type { ReadinessLevel } from '../assessment';
+import type { OfficeId } from '../booking';
+import type { ExperimentId } from '../experiments/definitions';
+
+export type SectionId = (typeof sectionIds)[number];
+
+export type CtaId = 'hero-primary' | 'hero-secondary' | 'case-study-contact' | 'service-tier';
+
+export interface AnalyticsEvents {
+  page_view: { locale: string };
+  section_view: { section: SectionId };
+  cta_click: { cta: CtaId; detail?: string };
+  service_hover: { service: string };
+  service_open: { service: string };
+  work_open: { project: string };
+  team_open: { member: string };
+  assessment_start: { source: CtaId };
+  assessment_complete: { score: number; level: ReadinessLevel; services: string[] };
+  booking_confirm: { office: OfficeId };
+  // Counts turns only; what the visitor typed never leaves the page
+  assistant_message: { turn: number };
+  // Sent once per page load for a bucketed visitor; QA overrides are not reported
+  experiment_exposure: { experiment: ExperimentId; variant: string };
+  consultation_submit: { outcome: 'invalid' | 'success' | 'failure'; budget?: BudgetBand; timeline?: Timeline };
+}
+
+export type EventName = keyof AnalyticsEvents;
+
+export interface AnalyticsEvent<Name extends EventName = EventName> {
+  name: Name;
+  props: AnalyticsEvents[Name];
+  // Locale-prefixed path the event happened on, without query or hash
+  path: string;
+  timestamp: number;
+}
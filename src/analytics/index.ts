@@ -0,0 +1,3 @@
+export { AnalyticsProvider, useAnalytics, useSectionView } from './AnalyticsProvider';
+export { createConsoleSink, createBufferSink, createBeaconSink, defaultSinks, type AnalyticsSink } from './sinks';
+export type { AnalyticsEvents, AnalyticsEvent, EventName, SectionId, CtaId } from './events';
@@ -0,0 +1,61 @@
+// Sinks receive tracked events. Dev builds log to the console and keep a
+// local buffer; production batches events to an endpoint with sendBeacon.
+import type { AnalyticsEvent } from './events';
+
+export interface AnalyticsSink {
+  send: (event: AnalyticsEvent) => void;
+  // Delivers anything queued; called when the page is being hidden
+  flush?: () => void;
+}
+
+export const createConsoleSink = (): AnalyticsSink => ({
+  send: (event) => console.info(`[analytics] ${event.name}`, event.props),
+});
+
+export const createBufferSink = (limit = 200): AnalyticsSink & { events: AnalyticsEvent[] } => {
+  const events: AnalyticsEvent[] = [];
+  return {
+    events,
+    send(event) {
+      events.push(event);
+      if (events.length > limit) events.shift();
+    },
+  };
+};
+
+export const createBeaconSink = (
+  endpoint: string,
+  { batchSize = 10, flushInterval = 5000 }: { batchSize?: number; flushInterval?: number } = {}
+): AnalyticsSink => {
+  let queue: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    if (queue.length === 0) return;
+    const body = JSON.stringify({ events: queue });
+    queue = [];
+    // sendBeacon survives page unloads; fetch with keepalive covers browsers without it
+    const queued = navigator.sendBeacon?.(endpoint, new Blob([body], { type: 'application/json' }));
+    if (!queued) {
+      fetch(endpoint, { method: 'POST', body, headers: { 'Content-Type': 'application/json' }, keepalive: true }).catch(() => {});
+    }
+  };
+
+  return {
+    send(event) {
+      queue.push(event);
+      if (queue.length >= batchSize) flush();
+      else timer ??= setTimeout(flush, flushInterval);
+    },
+    flush,
+  };
+};
+
+const endpoint = import.meta.env.VITE_ANALYTICS_ENDPOINT;
+
+export const defaultSinks = (): AnalyticsSink[] => {
+  if (endpoint) return [createBeaconSink(endpoint)];
+  return import.meta.env.DEV ? [createConsoleSink(), createBufferSink()] : [];
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { assess, pruneAnswers, readinessLevel, readinessScore, recommendServices, stepsFor, type AssessmentAnswers } from './assessment';
+import { services } from './content';
+
+const available = services.map((service) => service.slug);
+
+describe('assessment branching', () => {
+  it('asks about data sources only when data is missing or scattered', () => {
+    expect(stepsFor({ goals: [], maturity: 'siloed' }).map((question) => question.id)).toContain('dataSource');
+    expect(stepsFor({ goals: [], maturity: 'governed' }).map((question) => question.id)).not.toContain('dataSource');
+  });
+
+  it('drops answers to branch questions that no longer apply', () => {
+    const answers: AssessmentAnswers = { maturity: 'governed', dataSource: 'legacy', goals: ['insight'], ownership: 'own' };
+    expect(pruneAnswers(answers)).toEqual({ maturity: 'governed', goals: ['insight'] });
+  });
+});
+
+describe('readinessScore', () => {
+  it('is zero with nothing answered', () => {
+    expect(readinessScore({ goals: [] })).toBe(0);
+  });
+
+  it('adds up maturity, data, budget, urgency and focus', () => {
+    const answers: AssessmentAnswers = {
+      maturity: 'siloed',
+      dataSource: 'warehouse',
+      goals: ['automate', 'cost'],
+      budget: '150k-500k',
+      timeline: '1-3-months',
+    };
+    // 20 + 6 + 22 + 12 + 15
+    expect(readinessScore(answers)).toBe(75);
+  });
+
+  it('scores a scattered wish list lower than a focused one', () => {
+    const focused = readinessScore({ goals: ['insight'] });
+    const scattered = readinessScore({ goals: ['automate', 'insight', 'customer'] });
+    expect(focused).toBe(15);
+    expect(scattered).toBe(8);
+  });
+
+  it('never exceeds 100', () => {
+    const answers: AssessmentAnswers = {
+      maturity: 'governed',
+      dataSource: 'warehouse',
+      goals: ['insight'],
+      budget: '500k-plus',
+      timeline: 'immediately',
+    };
+    expect(readinessScore(answers)).toBe(100);
+  });
+
+  it('maps scores to levels at 40 and 70', () => {
+    expect([39, 40, 69, 70].map(readinessLevel)).toEqual(['exploring', 'emerging', 'emerging', 'ready']);
+  });
+});
+
+describe('recommendServices', () => {
+  it('puts data foundations first for teams without them', () => {
+    expect(recommendServices({ maturity: 'none', goals: ['automate'] }, available)[0]).toBe('data-architecture');
+  });
+
+  it('only recommends services that exist, at most three', () => {
+    const result = assess({ maturity: 'none', goals: ['automate', 'insight', 'product', 'cost'], timeline: 'exploring' }, available);
+    expect(result.services.length).toBeLessThanOrEqual(3);
+    result.services.forEach((slug) => expect(available).toContain(slug));
+    expect(recommendServices({ goals: ['product'] }, ['data-architecture'])).toEqual([]);
+  });
+});
@@ -0,0 +1,132 @@
+// AI readiness assessment: question flow with branching, scoring and service
+// recommendations. The result pre-fills and travels with the consultation request.
+import { budgetBands, timelines, type BudgetBand, type Timeline } from './consultation';
+
+export const industries = ['finance', 'healthcare', 'logistics', 'retail', 'manufacturing', 'other'] as const;
+export const maturityLevels = ['none', 'siloed', 'centralised', 'governed'] as const;
+export const dataSources = ['spreadsheets', 'legacy', 'saas', 'warehouse'] as const;
+export const goals = ['automate', 'insight', 'customer', 'product', 'cost'] as const;
+export const ownershipOptions = ['own', 'license', 'unsure'] as const;
+
+export type Industry = (typeof industries)[number];
+export type Maturity = (typeof maturityLevels)[number];
+export type DataSource = (typeof dataSources)[number];
+export type Goal = (typeof goals)[number];
+export type Ownership = (typeof ownershipOptions)[number];
+
+export interface AssessmentAnswers {
+  industry?: Industry;
+  maturity?: Maturity;
+  // Only asked when data is missing or scattered
+  dataSource?: DataSource;
+  goals: Goal[];
+  // Only asked when building a product is a goal
+  ownership?: Ownership;
+  budget?: BudgetBand;
+  timeline?: Timeline;
+}
+
+export const emptyAnswers: AssessmentAnswers = { goals: [] };
+
+export type QuestionId = 'industry' | 'maturity' | 'dataSource' | 'goals' | 'ownership' | 'budget' | 'timeline';
+
+export interface Question {
+  id: QuestionId;
+  options: readonly string[];
+  multiple?: boolean;
+  // Branching: the question is skipped unless this returns true
+  when?: (answers: AssessmentAnswers) => boolean;
+}
+
+export const questions: Question[] = [
+  { id: 'industry', options: industries },
+  { id: 'maturity', options: maturityLevels },
+  { id: 'dataSource', options: dataSources, when: ({ maturity }) => maturity === 'none' || maturity === 'siloed' },
+  { id: 'goals', options: goals, multiple: true },
+  { id: 'ownership', options: ownershipOptions, when: ({ goals }) => goals.includes('product') },
+  { id: 'budget', options: budgetBands },
+  { id: 'timeline', options: timelines },
+];
+
+// The questions that apply to the answers so far; later answers can add or
+// remove branch questions, so this is recomputed after every change
+export const stepsFor = (answers: AssessmentAnswers) => questions.filter((question) => !question.when || question.when(answers));
+
+export const isAnswered = (question: Question, answers: AssessmentAnswers) => {
+  const value = answers[question.id];
+  return Array.isArray(value) ? value.length > 0 : value !== undefined;
+};
+
+// Answers to branch questions that no longer apply are dropped
+export const pruneAnswers = (answers: AssessmentAnswers): AssessmentAnswers => {
+  const active = new Set(stepsFor(answers).map((question) => question.id));
+  const pruned = { ...answers };
+  if (!active.has('dataSource')) delete pruned.dataSource;
+  if (!active.has('ownership')) delete pruned.ownership;
+  return pruned;
+};
+
+// Scoring: data foundations carry the most weight, then budget and urgency
+const maturityPoints: Record<Maturity, number> = { none: 5, siloed: 20, centralised: 35, governed: 45 };
+const budgetPoints: Record<BudgetBand, number> = { 'under-50k': 5, '50k-150k': 15, '150k-500k': 22, '500k-plus': 25 };
+const timelinePoints: Record<Timeline, number> = { immediately: 15, '1-3-months': 12, '3-6-months': 8, exploring: 3 };
+const sourcePoints: Record<DataSource, number> = { spreadsheets: 0, legacy: 2, saas: 4, warehouse: 6 };
+
+export type ReadinessLevel = 'exploring' | 'emerging' | 'ready';
+
+export const readinessScore = (answers: AssessmentAnswers) => {
+  const score =
+    (answers.maturity ? maturityPoints[answers.maturity] : 0) +
+    (answers.dataSource ? sourcePoints[answers.dataSource] : 0) +
+    (answers.budget ? budgetPoints[answers.budget] : 0) +
+    (answers.timeline ? timelinePoints[answers.timeline] : 0) +
+    // Focused ambitions score higher than a scattered wish list
+    (answers.goals.length > 0 && answers.goals.length <= 2 ? 15 : answers.goals.length > 0 ? 8 : 0);
+  return Math.min(100, score);
+};
+
+export const readinessLevel = (score: number): ReadinessLevel => (score >= 70 ? 'ready' : score >= 40 ? 'emerging' : 'exploring');
+
+// Weighted votes for services.json slugs; the highest three are recommended
+const goalServices: Record<Goal, string[]> = {
+  automate: ['intelligent-automation'],
+  insight: ['data-architecture', 'ai-integration'],
+  customer: ['ai-integration'],
+  product: ['custom-model-development'],
+  cost: ['intelligent-automation', 'strategic-ai-consulting'],
+};
+
+export const recommendServices = (answers: AssessmentAnswers, available: string[], limit = 3) => {
+  const votes = new Map<string, number>();
+  const vote = (slug: string, weight: number) => votes.set(slug, (votes.get(slug) ?? 0) + weight);
+
+  answers.goals.forEach((goal) => goalServices[goal].forEach((slug) => vote(slug, 2)));
+  if (answers.maturity === 'none' || answers.maturity === 'siloed') {
+    vote('data-architecture', 3);
+    vote('strategic-ai-consulting', 2);
+  }
+  if (answers.timeline === 'exploring') vote('strategic-ai-consulting', 2);
+  if (answers.ownership === 'own') vote('custom-model-development', 2);
+  if (answers.ownership === 'license') vote('ai-integration', 1);
+  if (answers.budget === '500k-plus' || answers.budget === '150k-500k') vote('ongoing-partnership', 1);
+
+  return [...votes.entries()]
+    .filter(([slug]) => available.includes(slug))
+    // Ties keep services.json order
+    .sort(([a, aVotes], [b, bVotes]) => bVotes - aVotes || available.indexOf(a) - available.indexOf(b))
+    .slice(0, limit)
+    .map(([slug]) => slug);
+};
+
+export interface AssessmentResult {
+  answers: AssessmentAnswers;
+  score: number;
+  level: ReadinessLevel;
+  // Recommended service slugs, best match first
+  services: string[];
+}
+
+export const assess = (answers: AssessmentAnswers, available: string[]): AssessmentResult => {
+  const score = readinessScore(answers);
+  return { answers, score, level: readinessLevel(score), services: recommendServices(answers, available) };
+};
@@ -0,0 +1,11 @@
+export { useChat, type ChatStatus } from './useChat';
+export { buildKnowledge, retrieve, tokenize, systemPrompt, type KnowledgeEntry, type SiteCopy } from './knowledge';
+export {
+  createHttpProvider,
+  createMockProvider,
+  createUnavailableProvider,
+  defaultChatProvider,
+  type ChatProvider,
+  type ChatMessage,
+  type ChatRequest,
+} from './providers';
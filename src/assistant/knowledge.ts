@@ -0,0 +1,87 @@
+// Grounding for the assistant: the site's own content as small documents, and
+// a keyword retriever that picks the ones relevant to a question
+import type { SiteContent } from '../content';
+
+export interface KnowledgeEntry {
+  id: string;
+  title: string;
+  text: string;
+  // Locale-free path of the page the entry comes from
+  href: string;
+}
+
+export interface SiteCopy {
+  about: string;
+  contact: string;
+}
+
+export const buildKnowledge = ({ services, projects }: SiteContent, copy: SiteCopy): KnowledgeEntry[] => [
+  ...services.map((service) => ({
+    id: `service:${service.slug}`,
+    title: service.title,
+    href: `/services/${service.slug}`,
+    text: [
+      service.summary,
+      service.description,
+      service.deliverables.join('. '),
+      service.timeline.map((phase) => `${phase.phase} (${phase.duration}): ${phase.description}`).join(' '),
+      service.tiers.map((tier) => `${tier.name}, ${tier.price}: ${tier.description}`).join(' '),
+      service.faqs.map((faq) => `${faq.question} ${faq.answer}`).join(' '),
+    ].join(' '),
+  })),
+  ...projects.map((project) => ({
+    id: `project:${project.slug}`,
+    title: project.name,
+    href: `/work/${project.slug}`,
+    text: [
+      `${project.summary} (${project.category}, ${project.year})`,
+      project.challenge,
+      project.approach,
+      project.results,
+      project.metrics.map((metric) => `${metric.value} ${metric.label}`).join(', '),
+    ].join(' '),
+  })),
+  { id: 'about', title: 'NexusAI', href: '/#about', text: copy.about },
+  { id: 'contact', title: 'Contact', href: '/#contact', text: copy.contact },
+];
+
+const STOPWORDS = new Set(
+  'a an and are as at be by can could do does for from have how i in is it me my of on or our the to we what when where which who why will with you your'.split(' ')
+);
+
+export const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+
+// Scores entries by shared terms, weighting title matches; ties keep content order
+export const retrieve = (query: string, entries: KnowledgeEntry[], limit = 3) => {
+  const terms = new Set(tokenize(query));
+  if (terms.size === 0) return [];
+
+  return entries
+    .map((entry, index) => {
+      const title = new Set(tokenize(entry.title));
+      const body = tokenize(entry.text);
+      const score = [...terms].reduce(
+        (total, term) => total + (title.has(term) ? 3 : 0) + Math.min(body.filter((token) => token === term).length, 3),
+        0
+      );
+      return { entry, index, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+};
+
+// Instructions sent to real model backends alongside the retrieved entries
+export const systemPrompt = (context: KnowledgeEntry[], locale: string) =>
+  [
+    'You are the NexusAI website assistant. Answer questions about NexusAI services, case studies and how engagements work.',
+    'Use only the context below. If it does not contain the answer, say so and suggest booking a consultation.',
+    `Reply in the language with code "${locale}". Link pages as markdown, e.g. [Title](/services/slug).`,
+    '',
+    ...context.map((entry) => `## ${entry.title} (${entry.href})\n${entry.text}`),
+  ].join('\n');
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createMockProvider, createUnavailableProvider, type ChatRequest } from './providers';
+import type { KnowledgeEntry } from './knowledge';
+
+const entry: KnowledgeEntry = {
+  id: 'service:data-architecture',
+  title: 'Data Architecture',
+  text: 'We design the pipelines. Then we govern them. Then we hand them over.',
+  href: '/services/data-architecture',
+};
+
+const request = (context: KnowledgeEntry[], locale = 'en'): ChatRequest => ({
+  messages: [{ role: 'user', content: 'Tell me about data' }],
+  context,
+  locale,
+});
+
+const collect = async (stream: AsyncIterable<string>) => {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+};
+
+describe('createMockProvider', () => {
+  const provider = createMockProvider({ delay: 0 });
+
+  it('answers from the retrieved context, word by word, with links to the pages', async () => {
+    const chunks = await collect(provider.stream(request([entry])));
+    expect(chunks.length).toBeGreaterThan(10);
+    expect(chunks.join('')).toBe(
+      'Here is what I found on our site.\n\n' +
+        '**Data Architecture**: We design the pipelines. Then we govern them. [Read more](/services/data-architecture)'
+    );
+  });
+
+  it('streams the same reply for the same question', async () => {
+    expect(await collect(provider.stream(request([entry])))).toEqual(await collect(provider.stream(request([entry]))));
+  });
+
+  it('points to a consultation when nothing matched, in the visitor’s language', async () => {
+    expect((await collect(provider.stream(request([], 'fr')))).join('')).toContain('[demander une consultation](/#contact)');
+    // Locales without phrases fall back to English
+    expect((await collect(provider.stream(request([], 'de')))).join('')).toContain('[book a consultation](/#contact)');
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    const stream = createMockProvider({ delay: 5 }).stream(request([entry]), controller.signal);
+    const chunks: string[] = [];
+    await expect(async () => {
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+        if (chunks.length === 2) controller.abort();
+      }
+    }).rejects.toThrow('Aborted');
+    expect(chunks).toHaveLength(2);
+  });
+});
+
+describe('createUnavailableProvider', () => {
+  it('fails every request instead of inventing a reply', async () => {
+    await expect(collect(createUnavailableProvider().stream(request([entry])))).rejects.toThrow('No assistant endpoint configured');
+  });
+});
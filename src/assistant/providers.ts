@@ -0,0 +1,138 @@
+// Chat model backends. A provider streams the reply to a conversation as text
+// chunks; the widget never depends on which API sits behind it.
+import { systemPrompt, type KnowledgeEntry } from './knowledge';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  // Site content retrieved for the latest question
+  context: KnowledgeEntry[];
+  locale: string;
+}
+
+export interface ChatProvider {
+  stream: (request: ChatRequest, signal?: AbortSignal) => AsyncIterable<string>;
+}
+
+// Chunks carried by complete event-stream lines; returns true at `data: [DONE]`
+function* eventChunks(lines: string[]): Generator<string, boolean> {
+  for (const line of lines) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') return true;
+    try {
+      const parsed = JSON.parse(data);
+      yield typeof parsed === 'string' ? parsed : parsed.delta ?? parsed.content ?? '';
+    } catch {
+      yield data;
+    }
+  }
+  return false;
+}
+
+// Posts the conversation with a system prompt and reads the reply as
+// server-sent events (`data: {"delta": "..."}` lines ending with `data: [DONE]`)
+// or, when the response is not an event stream, as plain streamed text
+export const createHttpProvider = (endpoint: string): ChatProvider => ({
+  async *stream({ messages, context, locale }, signal) {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({ messages: [{ role: 'system', content: systemPrompt(context, locale) }, ...messages] }),
+      signal,
+    });
+    if (!response.ok || !response.body) throw new Error(`Assistant request failed with ${response.status}`);
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    const eventStream = response.headers.get('Content-Type')?.includes('text/event-stream');
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        // The last event may arrive without a closing newline
+        if (eventStream && buffer) yield* eventChunks([buffer]);
+        return;
+      }
+      if (!eventStream) {
+        yield value;
+        continue;
+      }
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      if (yield* eventChunks(lines)) return;
+    }
+  },
+});
+
+const mockPhrases: Record<string, { intro: string; more: string; fallback: string }> = {
+  en: {
+    intro: 'Here is what I found on our site.',
+    more: 'Read more',
+    fallback: 'I could not find that on our site. A partner can answer it directly: [book a consultation](/#contact).',
+  },
+  fr: {
+    intro: 'Voici ce que j’ai trouvé sur notre site.',
+    more: 'En savoir plus',
+    fallback: 'Je n’ai rien trouvé à ce sujet sur notre site. Un associé pourra vous répondre : [demander une consultation](/#contact).',
+  },
+  ar: {
+    intro: 'إليك ما وجدته على موقعنا.',
+    more: 'اقرأ المزيد',
+    fallback: 'لم أجد ذلك على موقعنا. يمكن لأحد الشركاء الإجابة مباشرة: [احجز استشارة](/#contact).',
+  },
+};
+
+const firstSentences = (text: string, count = 2) => (text.match(/[^.!?。]+[.!?。]?/g) ?? [text]).slice(0, count).join('').trim();
+
+// Offline provider: answers from the retrieved context only, word by word, so
+// the same question always streams the same reply
+export const createMockProvider = ({ delay = 25 }: { delay?: number } = {}): ChatProvider => ({
+  async *stream({ context, locale }, signal) {
+    const phrases = mockPhrases[locale] ?? mockPhrases.en;
+    const reply = context.length
+      ? [phrases.intro, ...context.map((entry) => `**${entry.title}**: ${firstSentences(entry.text)} [${phrases.more}](${entry.href})`)].join('\n\n')
+      : phrases.fallback;
+
+    for (const word of reply.split(/(?<=\s)/)) {
+      if (delay > 0) {
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(resolve, delay);
+          signal?.addEventListener(
+            'abort',
+            () => {
+              clearTimeout(timer);
+              reject(new DOMException('Aborted', 'AbortError'));
+            },
+            { once: true }
+          );
+        });
+      }
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      yield word;
+    }
+  },
+});
+
+// Without a backend, production shows the widget's error notice rather than
+// canned answers
+export const createUnavailableProvider = (): ChatProvider => ({
+  async *stream() {
+    throw new Error('No assistant endpoint configured');
+  },
+});
+
+const endpoint = import.meta.env.VITE_ASSISTANT_ENDPOINT;
+// Mocks only ever run in the dev server and tests
+const mocksAllowed = import.meta.env.DEV || import.meta.env.MODE === 'test';
+
+export const defaultChatProvider: ChatProvider = endpoint
+  ? createHttpProvider(endpoint)
+  : mocksAllowed
+    ? createMockProvider()
+    : createUnavailableProvider();
@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react';
+import { retrieve, type KnowledgeEntry } from './knowledge';
+import type { ChatMessage, ChatProvider } from './providers';
+
+const STORAGE_KEY = 'nexus:assistant';
+
+// The conversation survives navigation and reloads for the rest of the tab's session
+const readConversation = (): ChatMessage[] => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((message) => message?.role && typeof message.content === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export type ChatStatus = 'idle' | 'streaming' | 'error';
+
+export const useChat = ({ provider, knowledge, locale }: { provider: ChatProvider; knowledge: KnowledgeEntry[]; locale: string }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [status, setStatus] = useState<ChatStatus>('idle');
+  const controller = useRef<AbortController | null>(null);
+
+  // Read after mount so pre-rendered markup always starts from an empty conversation
+  useEffect(() => setMessages(readConversation()), []);
+
+  useEffect(() => {
+    // A reply still streaming is saved once it finishes
+    if (status === 'streaming') return;
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+    } catch {
+      // Storage can be unavailable in private modes; the chat lasts for the page
+    }
+  }, [messages, status]);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const send = async (text: string) => {
+    const question = text.trim();
+    if (!question || controller.current) return;
+
+    const history: ChatMessage[] = [...messages, { role: 'user', content: question }];
+    setMessages([...history, { role: 'assistant', content: '' }]);
+    setStatus('streaming');
+
+    const current = new AbortController();
+    controller.current = current;
+    try {
+      const context = retrieve(question, knowledge);
+      for await (const chunk of provider.stream({ messages: history, context, locale }, current.signal)) {
+        setMessages((previous) => {
+          const next = [...previous];
+          const last = next[next.length - 1];
+          next[next.length - 1] = { ...last, content: last.content + chunk };
+          return next;
+        });
+      }
+      setStatus('idle');
+    } catch {
+      // Stopping keeps whatever arrived; a failure drops the empty reply
+      if (current.signal.aborted) {
+        setStatus('idle');
+      } else {
+        setMessages((previous) => (previous[previous.length - 1]?.content ? previous : previous.slice(0, -1)));
+        setStatus('error');
+      }
+    } finally {
+      controller.current = null;
+    }
+  };
+
+  const stop = () => controller.current?.abort();
+
+  const reset = () => {
+    stop();
+    setMessages([]);
+    setStatus('idle');
+  };
+
+  return { messages, status, send, stop, reset };
+};
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MEETING_MINUTES,
+  createInvite,
+  createMockBookingAdapter,
+  officeById,
+  officeHourSlots,
+  parseIcsBusy,
+  zonedTimeToUtc,
+  type Slot,
+} from './booking';
+
+const iso = (instant: number) => new Date(instant).toISOString();
+
+describe('zonedTimeToUtc', () => {
+  it('converts office wall-clock times either side of a DST change', () => {
+    // New York is UTC-5 in winter and UTC-4 after the March change
+    expect(iso(zonedTimeToUtc(2026, 1, 15, 9, 0, 'America/New_York'))).toBe('2026-01-15T14:00:00.000Z');
+    expect(iso(zonedTimeToUtc(2026, 3, 9, 9, 0, 'America/New_York'))).toBe('2026-03-09T13:00:00.000Z');
+    expect(iso(zonedTimeToUtc(2026, 7, 1, 9, 0, 'Europe/London'))).toBe('2026-07-01T08:00:00.000Z');
+    expect(iso(zonedTimeToUtc(2026, 7, 1, 9, 0, 'Asia/Singapore'))).toBe('2026-07-01T01:00:00.000Z');
+  });
+});
+
+describe('officeHourSlots', () => {
+  const london = officeById('london')!;
+  // Monday 12 January 2026, 08:00 UTC
+  const from = Date.UTC(2026, 0, 12, 8);
+
+  it('offers hourly weekday slots in office hours, after the minimum notice', () => {
+    const slots = officeHourSlots(london, { from, days: 6 });
+    // Tuesday to Friday at 09:00 to 16:00; Monday is inside the notice period
+    expect(slots).toHaveLength(4 * 8);
+    expect(slots[0]).toEqual({ start: '2026-01-13T09:00:00.000Z', end: '2026-01-13T09:45:00.000Z', office: 'london' });
+    expect(slots.every(({ start }) => ![0, 6].includes(new Date(start).getUTCDay()))).toBe(true);
+    expect(slots.every(({ start, end }) => Date.parse(end) - Date.parse(start) === MEETING_MINUTES * 60_000)).toBe(true);
+  });
+
+  it('leaves out slots that overlap busy time', () => {
+    const busy = [{ start: Date.UTC(2026, 0, 13, 9, 30), end: Date.UTC(2026, 0, 13, 11) }];
+    const starts = officeHourSlots(london, { from, days: 1, busy }).map((slot) => slot.start);
+    expect(starts).not.toContain('2026-01-13T09:00:00.000Z');
+    expect(starts).not.toContain('2026-01-13T10:00:00.000Z');
+    expect(starts).toContain('2026-01-13T11:00:00.000Z');
+  });
+});
+
+describe('parseIcsBusy', () => {
+  it('reads UTC, zoned and duration events, skipping transparent ones', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART:20260113T100000Z',
+      'DTEND:20260113T110000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/New_York:20260113T090000',
+      'DURATION:PT30M',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20260113T120000Z',
+      'DTEND:20260113T130000Z',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseIcsBusy(ics)).toEqual([
+      { start: Date.UTC(2026, 0, 13, 10), end: Date.UTC(2026, 0, 13, 11) },
+      { start: Date.UTC(2026, 0, 13, 14), end: Date.UTC(2026, 0, 13, 14, 30) },
+    ]);
+  });
+
+  it('reads busy FREEBUSY periods and unfolds continued lines', () => {
+    const ics = 'FREEBUSY:20260113T100000Z/PT1H,\r\n 20260114T100000Z/20260114T103000Z\r\nFREEBUSY;FBTYPE=FREE:20260115T100000Z/PT1H';
+    expect(parseIcsBusy(ics)).toEqual([
+      { start: Date.UTC(2026, 0, 13, 10), end: Date.UTC(2026, 0, 13, 11) },
+      { start: Date.UTC(2026, 0, 14, 10), end: Date.UTC(2026, 0, 14, 10, 30) },
+    ]);
+  });
+});
+
+describe('createInvite', () => {
+  const slot: Slot = { start: '2026-01-13T09:00:00.000Z', end: '2026-01-13T09:45:00.000Z', office: 'london' };
+  const invite = (name: string, description = 'Follow-up call') =>
+    createInvite({
+      uid: 'call-1@example.com',
+      slot,
+      summary: 'Consultation; NexusAI, London',
+      description,
+      attendee: { name, email: 'ada@example.com' },
+      created: Date.UTC(2026, 0, 12, 8),
+    });
+
+  it('writes UTC times, escaped text and CRLF line endings', () => {
+    const ics = invite('Ada Lovelace');
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toEqual(
+      expect.arrayContaining([
+        'DTSTAMP:20260112T080000Z',
+        'DTSTART:20260113T090000Z',
+        'DTEND:20260113T094500Z',
+        'SUMMARY:Consultation\\; NexusAI\\, London',
+      ])
+    );
+  });
+
+  it('quotes attendee names and strips characters a parameter cannot hold', () => {
+    const ics = invite('Lovelace, Ada "The Countess"; Byron');
+    expect(ics).toContain('ATTENDEE;CN="Lovelace, Ada The Countess; Byron";ROLE=REQ-PARTICIPANT');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const lines = invite('Ada', 'Ünïcödé '.repeat(30)).split('\r\n');
+    const encoder = new TextEncoder();
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+    lines.forEach((line) => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.join('\r\n')).not.toContain('�');
+  });
+});
+
+describe('mock booking adapter', () => {
+  const slot: Slot = { start: '2026-01-13T09:00:00.000Z', end: '2026-01-13T09:45:00.000Z', office: 'london' };
+
+  it('never reuses a hold id after a release', async () => {
+    const adapter = createMockBookingAdapter({ latency: 0 });
+    const first = await adapter.hold(slot);
+    if (!first.ok) throw new Error('expected a hold');
+    await adapter.release(first.hold);
+    const second = await adapter.hold(slot);
+    if (!second.ok) throw new Error('expected a hold');
+    expect(second.hold.id).not.toBe(first.hold.id);
+  });
+
+  it('refuses a slot that is already held', async () => {
+    const adapter = createMockBookingAdapter({ latency: 0 });
+    await adapter.hold(slot);
+    expect(await adapter.hold(slot)).toEqual({ ok: false, error: 'taken' });
+  });
+});
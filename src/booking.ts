@@ -0,0 +1,420 @@
+// Meeting booking: office hours across time zones, availability sources,
+// slot holds and client-side calendar invites
+import { company, type OfficeId } from './company';
+
+export type Office = (typeof company.offices)[number];
+export type { OfficeId };
+
+export interface Slot {
+  // UTC instants as ISO strings
+  start: string;
+  end: string;
+  office: OfficeId;
+}
+
+export interface Interval {
+  start: number;
+  end: number;
+}
+
+export const MEETING_MINUTES = 45;
+// Calls start on the hour between these local office hours, Monday to Friday
+export const OFFICE_HOURS = { open: 9, close: 17 } as const;
+export const BOOKING_HORIZON_DAYS = 14;
+// Nobody can book a call that starts sooner than this
+export const MIN_NOTICE_HOURS = 24;
+
+export const officeById = (id: string) => company.offices.find((office) => office.id === id);
+
+// Time-zone maths with Intl only: the offset of a zone at an instant, and the
+// instant a wall-clock time in a zone refers to
+const zonedParts = (instant: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+export const zoneOffset = (instant: number, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = zonedParts(instant, timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant / 1000) * 1000;
+};
+
+// month is 1-based, as written on a calendar
+export const zonedTimeToUtc = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string) => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallClock - zoneOffset(wallClock, timeZone);
+  // Near a DST change the offset at the guess differs from the one at the wall-clock time
+  return wallClock - zoneOffset(guess, timeZone);
+};
+
+// The visitor's own zone, falling back to UTC where Intl cannot tell
+export const localTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// The office whose current offset is closest to the visitor's
+export const nearestOffice = (timeZone: string, now = Date.now()): Office => {
+  const visitor = zoneOffset(now, timeZone);
+  return [...company.offices].sort(
+    (a, b) => Math.abs(zoneOffset(now, a.timeZone) - visitor) - Math.abs(zoneOffset(now, b.timeZone) - visitor)
+  )[0];
+};
+
+// Office-hour slots for one office over the booking window, minus busy time
+export const officeHourSlots = (office: Office, { from, days, busy = [] }: { from: number; days: number; busy?: Interval[] }): Slot[] => {
+  const earliest = from + MIN_NOTICE_HOURS * 3600_000;
+  const today = zonedParts(from, office.timeZone);
+  const slots: Slot[] = [];
+
+  for (let offset = 0; offset <= days; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const weekday = date.getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+
+    for (let hour = OFFICE_HOURS.open; hour < OFFICE_HOURS.close; hour++) {
+      const start = zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, 0, office.timeZone);
+      const end = start + MEETING_MINUTES * 60_000;
+      if (start < earliest || busy.some((interval) => interval.start < end && interval.end > start)) continue;
+      slots.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString(), office: office.id });
+    }
+  }
+  return slots;
+};
+
+// iCalendar parsing, enough for published free/busy feeds: VEVENT start/end
+// pairs (UTC, TZID-qualified or all-day) and FREEBUSY periods
+const unfold = (ics: string) => ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+const parseIcsDate = (value: string, timeZone?: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return NaN;
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  if (utc || !timeZone) return Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  return zonedTimeToUtc(+year, +month, +day, +hour, +minute, timeZone) + +second * 1000;
+};
+
+const parseIcsDuration = (value: string) => {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return NaN;
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+};
+
+export const parseIcsBusy = (ics: string): Interval[] => {
+  const busy: Interval[] = [];
+  let event: { start?: number; end?: number; duration?: number; transparent?: boolean } | null = null;
+
+  for (const line of unfold(ics)) {
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const [rawName, ...params] = line.slice(0, separator).split(';');
+    const name = rawName.toUpperCase();
+    const value = line.slice(separator + 1).trim();
+    const tzid = params.find((param) => /^TZID=/i.test(param))?.slice(5);
+
+    if (name === 'BEGIN' && value === 'VEVENT') event = {};
+    else if (name === 'END' && value === 'VEVENT' && event) {
+      const { start, duration, transparent } = event;
+      const end = event.end ?? (start !== undefined && duration !== undefined ? start + duration : undefined);
+      if (!transparent && start !== undefined && end !== undefined && end > start) busy.push({ start, end });
+      event = null;
+    } else if (event && name === 'DTSTART') event.start = parseIcsDate(value, tzid);
+    else if (event && name === 'DTEND') event.end = parseIcsDate(value, tzid);
+    else if (event && name === 'DURATION') event.duration = parseIcsDuration(value);
+    else if (event && name === 'TRANSP') event.transparent = value.toUpperCase() === 'TRANSPARENT';
+    else if (name === 'FREEBUSY' && !params.some((param) => param.toUpperCase() === 'FBTYPE=FREE')) {
+      value.split(',').forEach((period) => {
+        const [from, to] = period.split('/');
+        const start = parseIcsDate(from);
+        const end = to?.startsWith('P') ? start + parseIcsDuration(to) : parseIcsDate(to ?? '');
+        if (end > start) busy.push({ start, end });
+      });
+    }
+  }
+  return busy.filter((interval) => Number.isFinite(interval.start) && Number.isFinite(interval.end));
+};
+
+// Availability sources
+export interface AvailabilityRange {
+  from: number;
+  days: number;
+}
+
+export interface AvailabilitySource {
+  load: (range: AvailabilityRange, signal?: AbortSignal) => Promise<Slot[]>;
+}
+
+const sortSlots = (slots: Slot[]) => slots.sort((a, b) => a.start.localeCompare(b.start));
+
+// JSON lists open slots directly: { "slots": [{ "start", "end", "office" }] }
+export const createJsonSource = (url: string): AvailabilitySource => ({
+  async load({ from, days }, signal) {
+    const response = await fetch(url, { headers: { Accept: 'application/json' }, signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const body = await response.json();
+    const list: unknown[] = Array.isArray(body) ? body : Array.isArray(body?.slots) ? body.slots : [];
+    const until = from + (days + 1) * 86400_000;
+    const earliest = from + MIN_NOTICE_HOURS * 3600_000;
+    return sortSlots(
+      list.filter((item): item is Slot => {
+        const slot = item as Slot;
+        if (typeof slot?.start !== 'string' || typeof slot.end !== 'string' || !officeById(slot.office)) return false;
+        const start = Date.parse(slot.start);
+        return start >= earliest && start < until && Date.parse(slot.end) > start;
+      })
+    );
+  },
+});
+
+// An ICS feed publishes busy time; every office's hours are offered around it
+export const createIcsSource = (url: string): AvailabilitySource => ({
+  async load(range, signal) {
+    const response = await fetch(url, { headers: { Accept: 'text/calendar' }, signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const busy = parseIcsBusy(await response.text());
+    return sortSlots(company.offices.flatMap((office) => officeHourSlots(office, { ...range, busy })));
+  },
+});
+
+// Offline source: office hours with a fixed pattern of slots already taken
+export const createMockSource = ({ latency = 400 }: { latency?: number } = {}): AvailabilitySource => ({
+  load: (range, signal) =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const slots = company.offices.flatMap((office) => officeHourSlots(office, range));
+        resolve(sortSlots(slots.filter((slot) => new Date(slot.start).getUTCHours() % 3 !== 1)));
+      }, latency);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    }),
+});
+
+// Without a calendar, production shows the scheduler's unavailable notice
+// rather than invented free time
+export const createUnavailableSource = (): AvailabilitySource => ({
+  load: async () => {
+    throw new Error('No availability source configured');
+  },
+});
+
+const availabilityUrl = import.meta.env.VITE_BOOKING_AVAILABILITY_URL;
+// Mocks only ever run in the dev server and tests
+const mocksAllowed = import.meta.env.DEV || import.meta.env.MODE === 'test';
+
+export const defaultAvailabilitySource: AvailabilitySource = availabilityUrl
+  ? /\.ics(\?|$)/i.test(availabilityUrl)
+    ? createIcsSource(availabilityUrl)
+    : createJsonSource(availabilityUrl)
+  : mocksAllowed
+    ? createMockSource()
+    : createUnavailableSource();
+
+// Holds: a slot is reserved for a few minutes while the visitor confirms
+export interface Hold {
+  id: string;
+  slot: Slot;
+  expiresAt: number;
+}
+
+export interface Attendee {
+  name: string;
+  email: string;
+  // Consultation reference the call follows up on
+  reference?: string;
+}
+
+export type HoldResult = { ok: true; hold: Hold } | { ok: false; error: 'taken' | 'network' };
+export type ConfirmResult = { ok: true; reference?: string } | { ok: false; error: 'expired' | 'network' };
+
+export interface BookingAdapter {
+  hold: (slot: Slot, signal?: AbortSignal) => Promise<HoldResult>;
+  confirm: (hold: Hold, attendee: Attendee, signal?: AbortSignal) => Promise<ConfirmResult>;
+  release: (hold: Hold) => Promise<void>;
+}
+
+export const HOLD_MINUTES = 5;
+
+export const createHttpBookingAdapter = (endpoint: string): BookingAdapter => {
+  const send = (path: string, init: RequestInit) =>
+    fetch(`${endpoint.replace(/\/$/, '')}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+    });
+
+  return {
+    async hold(slot, signal) {
+      try {
+        const response = await send('/holds', { method: 'POST', body: JSON.stringify(slot), signal });
+        if (response.status === 409) return { ok: false, error: 'taken' };
+        if (!response.ok) return { ok: false, error: 'network' };
+        const body = await response.json();
+        return { ok: true, hold: { id: body.id, slot, expiresAt: Date.parse(body.expiresAt) || Date.now() + HOLD_MINUTES * 60_000 } };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        return { ok: false, error: 'network' };
+      }
+    },
+    async confirm(hold, attendee, signal) {
+      try {
+        const response = await send(`/holds/${encodeURIComponent(hold.id)}/confirm`, {
+          method: 'POST',
+          body: JSON.stringify(attendee),
+          signal,
+        });
+        if (response.status === 404 || response.status === 410) return { ok: false, error: 'expired' };
+        if (!response.ok) return { ok: false, error: 'network' };
+        const body = await response.json().catch(() => ({}));
+        return { ok: true, reference: body.reference };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        return { ok: false, error: 'network' };
+      }
+    },
+    async release(hold) {
+      // Best effort; an unreleased hold simply expires on the server
+      await send(`/holds/${encodeURIComponent(hold.id)}`, { method: 'DELETE', keepalive: true }).catch(() => {});
+    },
+  };
+};
+
+export const createMockBookingAdapter = ({ latency = 500 }: { latency?: number } = {}): BookingAdapter & {
+  bookings: { slot: Slot; attendee: Attendee }[];
+} => {
+  const holds = new Map<string, Hold>();
+  // Never reused, even after holds are released
+  let holdCount = 0;
+  const bookings: { slot: Slot; attendee: Attendee }[] = [];
+  const wait = <T>(value: () => T, signal?: AbortSignal) =>
+    new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => resolve(value()), latency);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+  const taken = (slot: Slot) =>
+    bookings.some((booking) => booking.slot.start === slot.start && booking.slot.office === slot.office) ||
+    [...holds.values()].some((hold) => hold.slot.start === slot.start && hold.slot.office === slot.office && hold.expiresAt > Date.now());
+
+  return {
+    bookings,
+    hold: (slot, signal) =>
+      wait<HoldResult>(() => {
+        if (taken(slot)) return { ok: false, error: 'taken' };
+        const hold = { id: `hold-${++holdCount}`, slot, expiresAt: Date.now() + HOLD_MINUTES * 60_000 };
+        holds.set(hold.id, hold);
+        return { ok: true, hold };
+      }, signal),
+    confirm: (hold, attendee, signal) =>
+      wait<ConfirmResult>(() => {
+        const held = holds.get(hold.id);
+        if (!held || held.expiresAt <= Date.now()) return { ok: false, error: 'expired' };
+        holds.delete(hold.id);
+        bookings.push({ slot: hold.slot, attendee });
+        return { ok: true, reference: `CALL-${bookings.length.toString().padStart(4, '0')}` };
+      }, signal),
+    release: async (hold) => {
+      holds.delete(hold.id);
+    },
+  };
+};
+
+// Nothing can be booked; every attempt reports the calendar as unreachable
+export const createUnavailableBookingAdapter = (): BookingAdapter => ({
+  hold: async () => ({ ok: false, error: 'network' }),
+  confirm: async () => ({ ok: false, error: 'network' }),
+  release: async () => {},
+});
+
+const bookingEndpoint = import.meta.env.VITE_BOOKING_ENDPOINT;
+
+export const defaultBookingAdapter: BookingAdapter = bookingEndpoint
+  ? createHttpBookingAdapter(bookingEndpoint)
+  : mocksAllowed
+    ? createMockBookingAdapter()
+    : createUnavailableBookingAdapter();
+
+// Calendar invite (RFC 5545), generated in the browser for download
+export interface Invite {
+  uid: string;
+  slot: Slot;
+  summary: string;
+  description: string;
+  attendee: Attendee;
+  created?: number;
+}
+
+const icsDate = (instant: number) => new Date(instant).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Parameter values (CN=) cannot be backslash-escaped; they are quoted, and
+// may not contain quotes or control characters at all
+const icsParam = (value: string) => `"${value.replace(/["\x00-\x1f\x7f]/g, '')}"`;
+
+// Content lines are folded at 75 octets without splitting a character
+const fold = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (chunks.length ? 74 : 75)) {
+      chunks.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+export const createInvite = ({ uid, slot, summary, description, attendee, created = Date.now() }: Invite) => {
+  const office = officeById(slot.office);
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${company.name}//Booking//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${icsDate(created)}`,
+    `DTSTART:${icsDate(Date.parse(slot.start))}`,
+    `DTEND:${icsDate(Date.parse(slot.end))}`,
+    `SUMMARY:${icsText(summary)}`,
+    `DESCRIPTION:${icsText(description)}`,
+    ...(office ? [`LOCATION:${icsText(`${company.name} ${office.city}`)}`] : []),
+    `ORGANIZER;CN=${icsParam(company.name)}:mailto:${company.email}`,
+    `ATTENDEE;CN=${icsParam(attendee.name)};ROLE=REQ-PARTICIPANT;RSVP=TRUE:mailto:${attendee.email}`,
+    'STATUS:CONFIRMED',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${icsText(summary)}`,
+    'TRIGGER:-PT15M',
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ]
+    .map(fold)
+    .join('\r\n')
+    .concat('\r\n');
+};
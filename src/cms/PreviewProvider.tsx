@@ -0,0 +1,126 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { content } from '../content';
+import { formatIssues } from '../content/validate';
+import { catalogs, flatten } from '../i18n/catalog';
+import { defaultLocale, localeFromPath } from '../i18n/config';
+import { checkEntries } from './entries';
+import { createRestSource, LOCAL_CMS_PATH } from './sources';
+import type { CmsSnapshot, ContentSource } from './types';
+
+export type PreviewStatus = 'off' | 'loading' | 'ready' | 'error';
+
+interface PreviewSettings {
+  status: PreviewStatus;
+  // Why drafts could not be loaded, while the status is 'error'
+  error: string | null;
+  // Draft entries by locale, filled in as each locale is visited
+  drafts: CmsSnapshot;
+  exit: () => void;
+}
+
+const STORAGE_KEY = 'nexus:preview';
+
+// Drafts come from the CMS in production and from the dev server's stub in development
+const endpoint = import.meta.env.VITE_CMS_PREVIEW_ENDPOINT ?? (import.meta.env.DEV ? LOCAL_CMS_PATH : undefined);
+
+export const defaultPreviewSource: ContentSource | null = endpoint ? createRestSource(endpoint) : null;
+
+const baseMessages = flatten(catalogs[defaultLocale]);
+
+const readToken = () => {
+  try {
+    return sessionStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const writeToken = (token: string | null) => {
+  try {
+    if (token) sessionStorage.setItem(STORAGE_KEY, token);
+    else sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Without storage the preview lasts until the next full page load
+  }
+};
+
+const PreviewContext = createContext<PreviewSettings>({ status: 'off', error: null, drafts: {}, exit: () => {} });
+
+// Draft mode: `?preview=<token>` loads unpublished entries for the visited
+// locale over the published ones until the visitor exits. The token is kept
+// for the browser session and removed from the address bar.
+export const PreviewProvider = ({
+  source = defaultPreviewSource,
+  children,
+}: {
+  source?: ContentSource | null;
+  children: ReactNode;
+}) => {
+  const { pathname, search, hash, state } = useLocation();
+  const navigate = useNavigate();
+  const [token, setToken] = useState<string | null>(null);
+  const [drafts, setDrafts] = useState<CmsSnapshot>({});
+  const [status, setStatus] = useState<PreviewStatus>('off');
+  const [error, setError] = useState<string | null>(null);
+  const locale = localeFromPath(pathname);
+
+  useEffect(() => {
+    const params = new URLSearchParams(search);
+    const requested = params.get('preview');
+    if (requested === null) {
+      setToken(readToken());
+      return;
+    }
+    // An empty `?preview=` ends draft mode
+    writeToken(requested || null);
+    setToken(requested || null);
+    setDrafts({});
+    params.delete('preview');
+    const rest = params.toString();
+    navigate({ pathname, search: rest ? `?${rest}` : '', hash }, { replace: true, state });
+  }, [search]);
+
+  useEffect(() => {
+    setError(null);
+    if (!token) {
+      setStatus('off');
+      return;
+    }
+    if (!source) {
+      setStatus('error');
+      return;
+    }
+    if (drafts[locale]) {
+      setStatus('ready');
+      return;
+    }
+
+    const controller = new AbortController();
+    setStatus('loading');
+    source
+      .entries(locale, { preview: token, signal: controller.signal })
+      .then((body) => {
+        const { entries, issues } = checkEntries(body, content, baseMessages);
+        if (issues.length) throw new Error(`Draft content is invalid:\n${formatIssues(issues)}`);
+        setDrafts((current) => ({ ...current, [locale]: entries }));
+        setStatus('ready');
+      })
+      .catch((error: Error) => {
+        if (controller.signal.aborted) return;
+        setError(error.message);
+        setStatus('error');
+      });
+    return () => controller.abort();
+  }, [token, locale, source]);
+
+  const exit = () => {
+    writeToken(null);
+    setToken(null);
+    setDrafts({});
+  };
+
+  return <PreviewContext.Provider value={{ status, error, drafts, exit }}>{children}</PreviewContext.Provider>;
+};
+
+export const usePreview = () => useContext(PreviewContext);
@@ -0,0 +1,45 @@
+// Validation and merging of CMS entries, shared by the build plugin and preview mode
+import { validateContent, type ContentIssue } from '../content/validate';
+import { placeholders } from '../i18n/check';
+import type { SiteContent } from '../content/types';
+import type { CmsEntries } from './types';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks a raw entry set against the bundled content and the base message
+// catalog. Entries are only returned when there are no issues.
+export const checkEntries = (
+  body: unknown,
+  content: SiteContent | Record<string, unknown>,
+  messages: Record<string, string>
+): { entries: CmsEntries; issues: ContentIssue[] } => {
+  if (!isObject(body)) return { entries: {}, issues: [{ path: 'entries', message: 'expected an object' }] };
+
+  const issues: ContentIssue[] = [];
+  const { messages: copy, projects } = body;
+
+  if (copy !== undefined && !isObject(copy)) {
+    issues.push({ path: 'messages', message: 'expected an object of message keys' });
+  } else if (copy) {
+    Object.entries(copy).forEach(([key, value]) => {
+      const path = `messages.${key}`;
+      if (!(key in messages)) {
+        issues.push({ path, message: 'unknown message key' });
+      } else if (typeof value !== 'string' || value.trim() === '') {
+        issues.push({ path, message: 'expected a non-empty string' });
+      } else if (placeholders(value) !== placeholders(messages[key])) {
+        issues.push({ path, message: 'placeholders differ from the bundled message' });
+      }
+    });
+  }
+
+  // The replacement list is checked with everything that links to it, so a
+  // removed case study still referenced by a service or testimonial is caught
+  if (projects !== undefined) issues.push(...validateContent({ ...content, projects }));
+
+  return { entries: issues.length ? {} : (body as CmsEntries), issues };
+};
+
+export const applyEntries = (content: SiteContent, entries?: CmsEntries): SiteContent =>
+  entries?.projects ? { ...content, projects: entries.projects } : content;
@@ -0,0 +1,4 @@
+export { PreviewProvider, usePreview, defaultPreviewSource, type PreviewStatus } from './PreviewProvider';
+export { createRestSource, LOCAL_CMS_PATH } from './sources';
+export { checkEntries, applyEntries } from './entries';
+export * from './types';
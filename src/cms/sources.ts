@@ -0,0 +1,22 @@
+// Content sources. The REST adapter speaks to a headless CMS delivery API:
+// GET <endpoint>/entries/<locale> returns the published entries as JSON, and
+// ?preview=true with the preview token as a bearer token returns drafts.
+import type { ContentSource } from './types';
+
+export const createRestSource = (endpoint: string, { token }: { token?: string } = {}): ContentSource => ({
+  async entries(locale, { preview, signal } = {}) {
+    const url = `${endpoint.replace(/\/$/, '')}/entries/${locale}${preview ? '?preview=true' : ''}`;
+    const bearer = preview ?? token;
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json', ...(bearer && { Authorization: `Bearer ${bearer}` }) },
+      signal,
+    });
+    // A locale without entries keeps its bundled content
+    if (response.status === 404) return {};
+    if (!response.ok) throw new Error(`${url} responded with HTTP ${response.status}`);
+    return response.json();
+  },
+});
+
+// Where the dev server's stub serves the local cms/ directory in the same shape
+export const LOCAL_CMS_PATH = '/__cms';
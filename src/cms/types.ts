@@ -0,0 +1,19 @@
+// Content a headless CMS can manage. Anything an entry set leaves out keeps
+// the value bundled with the site.
+import type { Project } from '../content/types';
+import type { Locale, MessageKey } from '../i18n';
+
+export interface CmsEntries {
+  // Replacement copy by message key, such as "hero.titleLine1" or "about.lead"
+  messages?: Partial<Record<MessageKey, string>>;
+  // The complete, ordered case-study list
+  projects?: Project[];
+}
+
+export type CmsSnapshot = Partial<Record<Locale, CmsEntries>>;
+
+export interface ContentSource {
+  // Raw published entries for a locale, or drafts when given a preview token;
+  // run the result through checkEntries before use
+  entries: (locale: Locale, options?: { preview?: string; signal?: AbortSignal }) => Promise<unknown>;
+}
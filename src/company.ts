@@ -0,0 +1,19 @@
+// Company details shared by the footer, the contact section and structured data
+export const company = {
+  name: 'NexusAI',
+  email: 'hello@nexusai.com',
+  // Time zones are IANA names; the booking flow lays out office hours in them
+  offices: [
+    { id: 'new-york', city: 'New York', timeZone: 'America/New_York' },
+    { id: 'london', city: 'London', timeZone: 'Europe/London' },
+    { id: 'singapore', city: 'Singapore', timeZone: 'Asia/Singapore' },
+  ],
+  // Profiles without a live URL yet are shown but left out of structured data
+  socials: [
+    { label: 'LinkedIn', href: '#' },
+    { label: 'Twitter', href: '#' },
+    { label: 'Instagram', href: '#' },
+  ],
+} as const;
+
+export type OfficeId = (typeof company.offices)[number]['id'];
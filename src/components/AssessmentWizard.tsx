@@ -0,0 +1,338 @@
+import { createContext, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { LocaleLink, useI18n, useContent, type MessageKey } from '../i18n';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { useScrollLock } from '../hooks/useScrollLock';
+import { useAnalytics, type CtaId } from '../analytics';
+import { CountUp } from './CountUp';
+import {
+  assess,
+  emptyAnswers,
+  isAnswered,
+  pruneAnswers,
+  stepsFor,
+  type AssessmentAnswers,
+  type AssessmentResult,
+  type Question,
+} from '../assessment';
+
+interface AssessmentState {
+  open: boolean;
+  start: (source: CtaId) => void;
+  close: () => void;
+  // Completed assessment waiting to go out with the consultation request
+  result: AssessmentResult | null;
+  complete: (result: AssessmentResult) => void;
+  clear: () => void;
+}
+
+const AssessmentContext = createContext<AssessmentState>({
+  open: false,
+  start: () => {},
+  close: () => {},
+  result: null,
+  complete: () => {},
+  clear: () => {},
+});
+
+export const AssessmentProvider = ({ children }: { children: ReactNode }) => {
+  const [open, setOpen] = useState(false);
+  const [result, setResult] = useState<AssessmentResult | null>(null);
+  const { track } = useAnalytics();
+
+  const start = (source: CtaId) => {
+    track('assessment_start', { source });
+    setOpen(true);
+  };
+
+  return (
+    <AssessmentContext.Provider
+      value={{ open, start, close: () => setOpen(false), result, complete: setResult, clear: () => setResult(null) }}
+    >
+      {children}
+    </AssessmentContext.Provider>
+  );
+};
+
+export const useAssessment = () => useContext(AssessmentContext);
+
+const primaryButton =
+  'inline-flex items-center justify-center gap-3 bg-accent text-on-accent font-outfit text-sm tracking-wider px-8 py-4 hover:bg-ink hover:text-canvas transition-colors duration-300 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-accent disabled:hover:text-on-accent';
+const secondaryButton =
+  'inline-flex items-center justify-center gap-3 border border-line text-ink font-outfit text-sm tracking-wider px-8 py-4 hover:border-accent hover:text-accent transition-colors duration-300';
+
+// Budget and timeline reuse the consultation form's labels
+const optionKey = (question: Question, value: string) =>
+  (question.id === 'budget' || question.id === 'timeline'
+    ? `contact.${question.id}.${value}`
+    : `assessment.questions.${question.id}.options.${value}`) as MessageKey;
+
+// One question; radios for single answers, checkboxes for multiple
+const QuestionStep = ({ question, answers, onChange }: {
+  question: Question;
+  answers: AssessmentAnswers;
+  onChange: (answers: AssessmentAnswers) => void;
+}) => {
+  const { t } = useI18n();
+  const value = answers[question.id];
+
+  const select = (option: string) => {
+    if (!question.multiple) {
+      onChange(pruneAnswers({ ...answers, [question.id]: option }));
+      return;
+    }
+    const selected = answers.goals.includes(option as (typeof answers.goals)[number])
+      ? answers.goals.filter((goal) => goal !== option)
+      : [...answers.goals, option as (typeof answers.goals)[number]];
+    onChange(pruneAnswers({ ...answers, goals: selected }));
+  };
+
+  return (
+    <fieldset>
+      <legend className="font-cormorant text-3xl md:text-4xl text-ink leading-tight mb-2">
+        {t(`assessment.questions.${question.id}.title`)}
+      </legend>
+      {question.multiple && <p className="font-outfit text-sm text-muted">{t('assessment.multipleHint')}</p>}
+      <div className="mt-8 grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {question.options.map((option) => {
+          const checked = Array.isArray(value) ? value.includes(option as never) : value === option;
+          return (
+            <label
+              key={option}
+              className={`flex items-center gap-4 border px-5 py-4 cursor-pointer font-outfit text-sm transition-colors duration-300 has-[:focus-visible]:border-accent ${
+                checked ? 'border-accent text-ink bg-accent/10' : 'border-line text-soft hover:border-muted'
+              }`}
+            >
+              <input
+                type={question.multiple ? 'checkbox' : 'radio'}
+                name={`assessment-${question.id}`}
+                value={option}
+                checked={checked}
+                onChange={() => select(option)}
+                className="sr-only"
+              />
+              <span
+                aria-hidden="true"
+                className={`w-3 h-3 shrink-0 border transition-colors duration-300 ${question.multiple ? '' : 'rounded-full'} ${
+                  checked ? 'border-accent bg-accent' : 'border-muted'
+                }`}
+              />
+              {t(optionKey(question, option))}
+            </label>
+          );
+        })}
+      </div>
+    </fieldset>
+  );
+};
+
+// Multi-step readiness questionnaire, opened from the hero
+export const AssessmentWizard = () => {
+  const { open, close, complete } = useAssessment();
+  const { t, config, localePath, formatNumber } = useI18n();
+  const { services } = useContent();
+  const { track } = useAnalytics();
+  const navigate = useNavigate();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const [answers, setAnswers] = useState<AssessmentAnswers>(emptyAnswers);
+  const [step, setStep] = useState(0);
+  // 1 moving forward, -1 moving back; steps slide in from the reading direction
+  const [direction, setDirection] = useState(1);
+
+  const steps = stepsFor(answers);
+  const question = steps[step] as Question | undefined;
+  const result = question ? null : assess(answers, services.map((service) => service.slug));
+  const recommended = result ? services.filter((service) => result.services.includes(service.slug)) : [];
+  const offset = (config.dir === 'rtl' ? -1 : 1) * 48;
+
+  useScrollLock(open);
+  useFocusTrap(dialogRef, open, { onEscape: close });
+
+  // Move focus into each new step so keyboard and screen reader users follow along
+  useEffect(() => {
+    if (!open) return;
+    const frame = requestAnimationFrame(() =>
+      dialogRef.current?.querySelector<HTMLElement>('[data-step-focus], input')?.focus({ preventScroll: true })
+    );
+    return () => cancelAnimationFrame(frame);
+  }, [step, open]);
+
+  const go = (next: number) => {
+    setDirection(next > step ? 1 : -1);
+    setStep(next);
+    if (next === steps.length) {
+      const completed = assess(answers, services.map((service) => service.slug));
+      track('assessment_complete', { score: completed.score, level: completed.level, services: completed.services });
+    }
+  };
+
+  const restart = () => {
+    setDirection(-1);
+    setAnswers(emptyAnswers);
+    setStep(0);
+  };
+
+  const handOff = () => {
+    if (!result) return;
+    complete(result);
+    close();
+    navigate({ pathname: localePath('/'), hash: '#contact' });
+  };
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+          className="fixed inset-0 z-[60] bg-canvas/95 backdrop-blur-sm flex items-center justify-center p-4 md:p-6"
+          onClick={(e) => e.target === e.currentTarget && close()}
+        >
+          <motion.div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="assessment-title"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+            className="relative w-full max-w-3xl max-h-full overflow-y-auto overflow-x-hidden bg-canvas border border-line p-6 md:p-12 text-start"
+          >
+            <div className="flex items-start justify-between gap-6 mb-8">
+              <div>
+                <span className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-3">
+                  {t('assessment.eyebrow')}
+                </span>
+                <h2 id="assessment-title" className="font-outfit text-sm text-muted">
+                  {t('assessment.title')}
+                </h2>
+              </div>
+              <button
+                type="button"
+                onClick={close}
+                aria-label={t('assessment.close')}
+                className="w-10 h-10 shrink-0 flex items-center justify-center text-muted hover:text-accent transition-colors duration-300"
+              >
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current" aria-hidden="true">
+                  <path d="M3 3l10 10M13 3L3 13" strokeWidth="1.5" strokeLinecap="round" />
+                </svg>
+              </button>
+            </div>
+
+            {/* Progress */}
+            <div className="mb-10">
+              <div className="h-[1px] bg-line">
+                <motion.div
+                  className="h-full bg-accent"
+                  initial={false}
+                  animate={{ width: `${(Math.min(step, steps.length) / steps.length) * 100}%` }}
+                  transition={{ duration: 0.5, ease: [0.22, 1, 0.36, 1] }}
+                />
+              </div>
+              {question && (
+                <p className="font-outfit text-xs tracking-wider text-muted mt-3" aria-live="polite">
+                  {t('assessment.progress', { current: step + 1, total: steps.length })}
+                </p>
+              )}
+            </div>
+
+            <AnimatePresence mode="wait" initial={false}>
+              <motion.div
+                key={question?.id ?? 'result'}
+                initial={{ opacity: 0, x: direction * offset }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: -direction * offset }}
+                transition={{ duration: 0.35, ease: [0.22, 1, 0.36, 1] }}
+              >
+                {question ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (isAnswered(question, answers)) go(step + 1);
+                    }}
+                  >
+                    {step === 0 && <p className="font-outfit text-muted leading-relaxed mb-8">{t('assessment.intro')}</p>}
+                    <QuestionStep question={question} answers={answers} onChange={setAnswers} />
+                    <div className="mt-10 flex items-center justify-between gap-4">
+                      {step > 0 ? (
+                        <button type="button" onClick={() => go(step - 1)} className={secondaryButton}>
+                          {t('assessment.back')}
+                        </button>
+                      ) : (
+                        <span />
+                      )}
+                      <button type="submit" disabled={!isAnswered(question, answers)} className={primaryButton}>
+                        {step === steps.length - 1 ? t('assessment.seeResults') : t('assessment.next')}
+                        <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
+                          <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                        </svg>
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  result && (
+                    <div>
+                      <span className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-6">
+                        {t('assessment.resultEyebrow')}
+                      </span>
+                      <div className="flex flex-col md:flex-row md:items-end gap-6 md:gap-12 mb-8">
+                        <div>
+                          <span className="font-cormorant text-7xl md:text-8xl text-accent leading-none block">
+                            <CountUp value={result.score} format={(value) => formatNumber(Math.round(value))} start duration={1.2} />
+                          </span>
+                          <span className="font-outfit text-xs tracking-wider text-muted">{t('assessment.scoreLabel')}</span>
+                        </div>
+                        <h3 data-step-focus tabIndex={-1} className="font-cormorant text-4xl md:text-5xl text-ink leading-tight focus:outline-none">
+                          {t(`assessment.levels.${result.level}.title`)}
+                        </h3>
+                      </div>
+                      <p className="font-outfit text-soft leading-relaxed mb-10">{t(`assessment.levels.${result.level}.body`)}</p>
+
+                      {recommended.length > 0 && (
+                        <div className="mb-10">
+                          <h4 className="font-outfit text-xs tracking-[0.3em] text-muted uppercase mb-4">{t('assessment.recommended')}</h4>
+                          <ul className="border-t border-line">
+                            {recommended.map((service) => (
+                              <li key={service.slug} className="border-b border-line">
+                                <LocaleLink
+                                  to={`/services/${service.slug}`}
+                                  onClick={() => {
+                                    complete(result);
+                                    close();
+                                  }}
+                                  className="group flex items-center justify-between gap-6 py-4 font-cormorant text-2xl text-ink hover:text-accent transition-colors duration-300"
+                                >
+                                  {service.title}
+                                  <svg width="20" height="20" viewBox="0 0 20 20" fill="none" className="stroke-current text-accent shrink-0 rtl:-scale-x-100">
+                                    <path d="M4 10h12M12 6l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                                  </svg>
+                                </LocaleLink>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      <div className="flex flex-col sm:flex-row gap-4">
+                        <button type="button" onClick={handOff} className={primaryButton}>
+                          {t('assessment.continue')}
+                        </button>
+                        <button type="button" onClick={restart} className={secondaryButton}>
+                          {t('assessment.retake')}
+                        </button>
+                      </div>
+                    </div>
+                  )
+                )}
+              </motion.div>
+            </AnimatePresence>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,343 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useI18n } from '../i18n';
+import { useAnalytics } from '../analytics';
+import { company } from '../company';
+import {
+  BOOKING_HORIZON_DAYS,
+  createInvite,
+  defaultAvailabilitySource,
+  defaultBookingAdapter,
+  localTimeZone,
+  nearestOffice,
+  officeById,
+  type Attendee,
+  type AvailabilitySource,
+  type BookingAdapter,
+  type Hold,
+  type OfficeId,
+  type Slot,
+} from '../booking';
+
+type Step =
+  | { status: 'loading' }
+  | { status: 'picking'; notice?: 'taken' | 'expired' | 'unavailable' }
+  | { status: 'holding'; slot: Slot }
+  | { status: 'held'; hold: Hold; failed?: boolean }
+  | { status: 'confirming'; hold: Hold }
+  | { status: 'confirmed'; hold: Hold; reference?: string };
+
+const optionButton = (active: boolean) =>
+  `font-outfit text-sm px-4 py-2 border transition-colors duration-300 ${
+    active ? 'border-accent text-accent' : 'border-line text-muted hover:border-accent/60 hover:text-ink'
+  }`;
+
+const primaryButton =
+  'bg-accent text-on-accent font-outfit text-sm tracking-wider px-6 py-3 hover:bg-ink hover:text-canvas transition-colors duration-300 disabled:opacity-60';
+
+const downloadFile = (filename: string, text: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Picks a call slot after a consultation request: hold, confirm, then an .ics invite
+export const BookingScheduler = ({
+  attendee,
+  source = defaultAvailabilitySource,
+  adapter = defaultBookingAdapter,
+}: {
+  attendee: Attendee;
+  source?: AvailabilitySource;
+  adapter?: BookingAdapter;
+}) => {
+  const { t, config } = useI18n();
+  const { track } = useAnalytics();
+  const visitorZone = useMemo(localTimeZone, []);
+  const [officeId, setOfficeId] = useState<OfficeId>(() => nearestOffice(visitorZone).id);
+  const [zoneMode, setZoneMode] = useState<'visitor' | 'office'>('visitor');
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [day, setDay] = useState<string | null>(null);
+  const [step, setStep] = useState<Step>({ status: 'loading' });
+  const [now, setNow] = useState(Date.now);
+  const [loads, setLoads] = useState(0);
+  const pending = useRef<AbortController | null>(null);
+  const heldRef = useRef<Hold | null>(null);
+
+  const office = officeById(officeId)!;
+  const timeZone = zoneMode === 'office' ? office.timeZone : visitorZone;
+
+  const formats = useMemo(
+    () => ({
+      dayKey: new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }),
+      day: new Intl.DateTimeFormat(config.intl, { timeZone, weekday: 'short', day: 'numeric', month: 'short' }),
+      time: new Intl.DateTimeFormat(config.intl, { timeZone, hour: 'numeric', minute: '2-digit' }),
+      full: new Intl.DateTimeFormat(config.intl, { timeZone, weekday: 'long', day: 'numeric', month: 'long', hour: 'numeric', minute: '2-digit', timeZoneName: 'short' }),
+      officeTime: new Intl.DateTimeFormat(config.intl, { timeZone: office.timeZone, hour: 'numeric', minute: '2-digit' }),
+    }),
+    [timeZone, config.intl, office.timeZone]
+  );
+
+  // Availability for every office; reloaded after a slot turns out to be taken
+  useEffect(() => {
+    const controller = new AbortController();
+    setStep((current) => (current.status === 'picking' ? current : { status: 'loading' }));
+    source
+      .load({ from: Date.now(), days: BOOKING_HORIZON_DAYS }, controller.signal)
+      .then((loaded) => {
+        setSlots(loaded);
+        setStep((current) => (current.status === 'loading' ? { status: 'picking' } : current));
+      })
+      .catch(() => !controller.signal.aborted && setStep({ status: 'picking', notice: 'unavailable' }));
+    return () => controller.abort();
+  }, [source, loads]);
+
+  // Release an unconfirmed hold when the visitor leaves the flow
+  useEffect(
+    () => () => {
+      pending.current?.abort();
+      if (heldRef.current) adapter.release(heldRef.current);
+    },
+    [adapter]
+  );
+
+  const held = step.status === 'held' ? step.hold : null;
+
+  // Countdown for the hold; an expired hold goes back to picking
+  useEffect(() => {
+    if (!held) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= held.expiresAt) {
+        heldRef.current = null;
+        setStep({ status: 'picking', notice: 'expired' });
+        setLoads((count) => count + 1);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [held]);
+
+  // Slots grouped by calendar day in the zone being shown
+  const days = useMemo(() => {
+    const grouped = new Map<string, Slot[]>();
+    slots
+      .filter((slot) => slot.office === officeId)
+      .forEach((slot) => {
+        const key = formats.dayKey.format(new Date(slot.start));
+        grouped.set(key, [...(grouped.get(key) ?? []), slot]);
+      });
+    return [...grouped.entries()];
+  }, [slots, officeId, formats]);
+  const selectedDay = days.find(([key]) => key === day) ?? days[0];
+
+  const pick = async (slot: Slot) => {
+    if (heldRef.current) adapter.release(heldRef.current);
+    heldRef.current = null;
+    const controller = new AbortController();
+    pending.current = controller;
+    setStep({ status: 'holding', slot });
+    try {
+      const result = await adapter.hold(slot, controller.signal);
+      if (result.ok) {
+        heldRef.current = result.hold;
+        setNow(Date.now());
+        setStep({ status: 'held', hold: result.hold });
+      } else {
+        setStep({ status: 'picking', notice: result.error === 'taken' ? 'taken' : 'unavailable' });
+        if (result.error === 'taken') setLoads((count) => count + 1);
+      }
+    } catch {
+      if (!controller.signal.aborted) setStep({ status: 'picking', notice: 'unavailable' });
+    } finally {
+      pending.current = null;
+    }
+  };
+
+  const confirm = async (hold: Hold) => {
+    const controller = new AbortController();
+    pending.current = controller;
+    setStep({ status: 'confirming', hold });
+    try {
+      const result = await adapter.confirm(hold, attendee, controller.signal);
+      if (result.ok) {
+        heldRef.current = null;
+        track('booking_confirm', { office: hold.slot.office });
+        setStep({ status: 'confirmed', hold, reference: result.reference });
+      } else if (result.error === 'expired') {
+        heldRef.current = null;
+        setStep({ status: 'picking', notice: 'expired' });
+        setLoads((count) => count + 1);
+      } else {
+        setStep({ status: 'held', hold, failed: true });
+      }
+    } catch {
+      if (!controller.signal.aborted) setStep({ status: 'held', hold, failed: true });
+    } finally {
+      pending.current = null;
+    }
+  };
+
+  const cancelHold = () => {
+    if (heldRef.current) adapter.release(heldRef.current);
+    heldRef.current = null;
+    setStep({ status: 'picking' });
+  };
+
+  const downloadInvite = (hold: Hold, reference?: string) => {
+    const summary = t('booking.inviteSummary', { company: company.name });
+    const description = [
+      t('booking.inviteDescription', { name: attendee.name }),
+      reference && t('booking.reference', { reference }),
+      attendee.reference && t('contact.successReference', { reference: attendee.reference }),
+    ]
+      .filter(Boolean)
+      .join('\n');
+    const uid = `${hold.id}-${Date.parse(hold.slot.start)}@${company.email.split('@')[1]}`;
+    downloadFile('nexusai-call.ics', createInvite({ uid, slot: hold.slot, summary, description, attendee }), 'text/calendar;charset=utf-8');
+  };
+
+  const describe = (slot: Slot) => formats.full.format(new Date(slot.start));
+  const secondsLeft = held ? Math.max(0, Math.round((held.expiresAt - now) / 1000)) : 0;
+
+  return (
+    <section aria-labelledby="booking-title" className="mt-12 pt-10 border-t border-line text-start">
+      <span className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4">{t('booking.eyebrow')}</span>
+      <h3 id="booking-title" className="font-cormorant text-3xl text-ink mb-3">
+        {t('booking.title')}
+      </h3>
+      <p className="font-outfit text-sm text-muted leading-relaxed mb-8">{t('booking.lead')}</p>
+
+      <AnimatePresence mode="wait" initial={false}>
+        {step.status === 'confirmed' ? (
+          <motion.div
+            key="confirmed"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, ease: [0.22, 1, 0.36, 1] }}
+            role="status"
+          >
+            <p className="font-cormorant text-2xl text-ink mb-2">{t('booking.confirmedTitle')}</p>
+            <p className="font-outfit text-sm text-muted leading-relaxed mb-6">
+              {t('booking.confirmedBody', { time: describe(step.hold.slot), city: t(`offices.${step.hold.slot.office}`) })}
+              {step.reference && <> {t('booking.reference', { reference: step.reference })}</>}
+            </p>
+            <button type="button" onClick={() => downloadInvite(step.hold, step.reference)} className={primaryButton}>
+              {t('booking.download')}
+            </button>
+          </motion.div>
+        ) : step.status === 'held' || step.status === 'confirming' ? (
+          <motion.div
+            key="held"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+          >
+            <p className="font-cormorant text-2xl text-ink mb-2">{describe(step.hold.slot)}</p>
+            <p className="font-outfit text-sm text-muted mb-1">
+              {t('booking.officeTime', {
+                time: formats.officeTime.format(new Date(step.hold.slot.start)),
+                city: t(`offices.${step.hold.slot.office}`),
+              })}
+            </p>
+            <p className="font-outfit text-sm text-soft mb-6" aria-live="off">
+              {t('booking.heldFor', { time: `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}` })}
+            </p>
+            {step.status === 'held' && step.failed && (
+              <p role="alert" className="font-outfit text-sm text-danger mb-6">
+                {t('booking.notices.unavailable')}
+              </p>
+            )}
+            <div className="flex flex-wrap items-center gap-6">
+              <button
+                type="button"
+                onClick={() => confirm(step.hold)}
+                disabled={step.status === 'confirming'}
+                className={primaryButton}
+              >
+                {step.status === 'confirming' ? t('booking.confirming') : t('booking.confirm')}
+              </button>
+              <button
+                type="button"
+                onClick={cancelHold}
+                disabled={step.status === 'confirming'}
+                className="font-outfit text-sm text-accent hover:text-ink tracking-wider transition-colors duration-300"
+              >
+                {t('booking.change')}
+              </button>
+            </div>
+          </motion.div>
+        ) : (
+          <motion.div key="picking" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.3 }}>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+              <div role="group" aria-label={t('booking.office')} className="flex flex-wrap gap-2">
+                {company.offices.map(({ id }) => (
+                  <button key={id} type="button" aria-pressed={officeId === id} onClick={() => setOfficeId(id)} className={optionButton(officeId === id)}>
+                    {t(`offices.${id}`)}
+                  </button>
+                ))}
+              </div>
+              <div role="group" aria-label={t('booking.timeZone')} className="flex gap-2">
+                <button type="button" aria-pressed={zoneMode === 'visitor'} onClick={() => setZoneMode('visitor')} className={optionButton(zoneMode === 'visitor')}>
+                  {t('booking.yourTime')}
+                </button>
+                <button type="button" aria-pressed={zoneMode === 'office'} onClick={() => setZoneMode('office')} className={optionButton(zoneMode === 'office')}>
+                  {t('booking.officeTimeToggle')}
+                </button>
+              </div>
+            </div>
+            <p className="font-outfit text-xs text-muted/80 mb-6">{t('booking.showingIn', { zone: timeZone.replace(/_/g, ' ') })}</p>
+
+            {step.status === 'picking' && step.notice && (
+              <p role="alert" className="font-outfit text-sm text-danger mb-6">
+                {t(`booking.notices.${step.notice}`)}
+              </p>
+            )}
+
+            {step.status === 'loading' ? (
+              <p className="font-outfit text-sm text-muted" role="status">
+                {t('booking.loading')}
+              </p>
+            ) : !selectedDay ? (
+              <p className="font-outfit text-sm text-muted">{t('booking.empty', { email: company.email })}</p>
+            ) : (
+              <>
+                <div role="group" aria-label={t('booking.day')} className="flex gap-2 overflow-x-auto pb-2 mb-6">
+                  {days.map(([key, daySlots]) => (
+                    <button
+                      key={key}
+                      type="button"
+                      aria-pressed={selectedDay[0] === key}
+                      onClick={() => setDay(key)}
+                      className={`${optionButton(selectedDay[0] === key)} shrink-0`}
+                    >
+                      {formats.day.format(new Date(daySlots[0].start))}
+                    </button>
+                  ))}
+                </div>
+                <ul className="grid grid-cols-3 sm:grid-cols-4 gap-2" aria-label={t('booking.times')}>
+                  {selectedDay[1].map((slot) => (
+                    <li key={slot.start}>
+                      <button
+                        type="button"
+                        onClick={() => pick(slot)}
+                        disabled={step.status === 'holding'}
+                        aria-label={describe(slot)}
+                        className={`w-full ${optionButton(step.status === 'holding' && step.slot === slot)} disabled:cursor-wait`}
+                      >
+                        {formats.time.format(new Date(slot.start))}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </section>
+  );
+};
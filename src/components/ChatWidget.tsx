@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useRef, useState, type FormEvent, type ReactNode } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LocaleLink, useI18n, useContent } from '../i18n';
+import { useAnalytics } from '../analytics';
+import { buildKnowledge, defaultChatProvider, useChat } from '../assistant';
+import { company } from '../company';
+
+// Replies use a small markdown subset: **bold**, [label](/path) and blank-line paragraphs
+const INLINE_PATTERN = /\*\*([^*]+)\*\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+// Exactly one leading slash: `//host` and `/\host` are protocol-relative and leave the site
+const SITE_PATH = /^\/(?![/\\])/;
+
+const renderInline = (text: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, bold, label, href] = match;
+    const index = match.index ?? 0;
+    if (index > last) nodes.push(text.slice(last, index));
+    if (bold) {
+      nodes.push(
+        <strong key={index} className="font-normal text-ink">
+          {bold}
+        </strong>
+      );
+    } else if (SITE_PATH.test(href)) {
+      nodes.push(
+        <LocaleLink key={index} to={href} className="text-accent underline underline-offset-4 hover:text-ink transition-colors duration-300">
+          {label}
+        </LocaleLink>
+      );
+    } else {
+      // Only site paths become links; anything else from a model stays plain text
+      nodes.push(label);
+    }
+    last = index + whole.length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+};
+
+const Reply = ({ content }: { content: string }) => (
+  <>
+    {content.split(/\n{2,}/).map((paragraph, index) => (
+      <p key={index} className="mt-2 first:mt-0">
+        {renderInline(paragraph)}
+      </p>
+    ))}
+  </>
+);
+
+const suggestions = ['assistant.suggestions.services', 'assistant.suggestions.work', 'assistant.suggestions.start'] as const;
+
+// Floating assistant; answers questions from the site's own content
+export const ChatWidget = () => {
+  const { t, locale } = useI18n();
+  const content = useContent();
+  const { track } = useAnalytics();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+  const toggleRef = useRef<HTMLButtonElement>(null);
+
+  const knowledge = useMemo(
+    () =>
+      buildKnowledge(content, {
+        about: `${t('about.lead')} ${t('about.body')}`,
+        contact: `${t('contact.lead')} ${company.email}. ${company.offices.map((office) => office.city).join(', ')}.`,
+      }),
+    [content, t]
+  );
+  const { messages, status, send, stop, reset } = useChat({ provider: defaultChatProvider, knowledge, locale });
+  const streaming = status === 'streaming';
+
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  // Keep the newest text in view while a reply streams in
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [messages, open]);
+
+  const close = () => {
+    setOpen(false);
+    toggleRef.current?.focus();
+  };
+
+  const ask = (question: string) => {
+    if (!question.trim() || streaming) return;
+    track('assistant_message', { turn: messages.filter((message) => message.role === 'user').length + 1 });
+    setDraft('');
+    send(question);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    ask(draft);
+  };
+
+  return (
+    <div className="fixed bottom-4 end-4 md:bottom-6 md:end-6 z-30 flex flex-col items-end gap-4">
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            id="assistant-panel"
+            role="dialog"
+            aria-labelledby="assistant-title"
+            initial={{ opacity: 0, y: 24, scale: 0.98 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: 24, scale: 0.98 }}
+            transition={{ duration: 0.35, ease: [0.22, 1, 0.36, 1] }}
+            onKeyDown={(e) => e.key === 'Escape' && close()}
+            className="w-[calc(100vw-2rem)] sm:w-96 h-[min(32rem,calc(100vh-8rem))] bg-canvas border border-line flex flex-col origin-bottom"
+          >
+            <div className="flex items-center justify-between gap-4 px-5 py-4 border-b border-line">
+              <h2 id="assistant-title" className="font-cormorant text-xl text-ink">
+                {t('assistant.title')}
+              </h2>
+              <div className="flex items-center gap-4">
+                {messages.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={reset}
+                    className="font-outfit text-xs tracking-wider text-muted hover:text-accent transition-colors duration-300"
+                  >
+                    {t('assistant.reset')}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={close}
+                  aria-label={t('assistant.close')}
+                  className="text-muted hover:text-ink transition-colors duration-300"
+                >
+                  <svg aria-hidden="true" className="w-4 h-4" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+                    <path d="M3 3l10 10M13 3L3 13" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            <div
+              ref={logRef}
+              role="log"
+              aria-live="polite"
+              aria-busy={streaming}
+              className="flex-1 overflow-y-auto px-5 py-4 space-y-4 font-outfit text-sm leading-relaxed"
+            >
+              <p className="text-muted">{t('assistant.intro')}</p>
+              {messages.map((message, index) =>
+                message.role === 'user' ? (
+                  <p key={index} className="ms-8 bg-surface border border-line px-4 py-3 text-ink">
+                    <span className="sr-only">{t('assistant.you')}: </span>
+                    {message.content}
+                  </p>
+                ) : (
+                  <div key={index} className="me-8 text-muted">
+                    <span className="sr-only">{t('assistant.title')}: </span>
+                    {message.content ? <Reply content={message.content} /> : <span className="text-muted/60">{t('assistant.typing')}</span>}
+                  </div>
+                )
+              )}
+              {status === 'error' && (
+                <p role="alert" className="text-danger">
+                  {t('assistant.error')}
+                </p>
+              )}
+              {messages.length === 0 && (
+                <div className="flex flex-wrap gap-2 pt-2">
+                  {suggestions.map((key) => (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => ask(t(key))}
+                      className="border border-line text-muted text-xs tracking-wide px-3 py-2 hover:border-accent hover:text-accent transition-colors duration-300"
+                    >
+                      {t(key)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex border-t border-line">
+              <label htmlFor="assistant-input" className="sr-only">
+                {t('assistant.placeholder')}
+              </label>
+              <input
+                ref={inputRef}
+                id="assistant-input"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={t('assistant.placeholder')}
+                autoComplete="off"
+                maxLength={500}
+                className="flex-1 min-w-0 bg-transparent px-5 py-4 font-outfit text-sm text-ink placeholder:text-muted/60 focus:outline-none"
+              />
+              {streaming ? (
+                <button
+                  type="button"
+                  onClick={stop}
+                  className="px-5 font-outfit text-xs tracking-wider uppercase text-muted hover:text-accent transition-colors duration-300"
+                >
+                  {t('assistant.stop')}
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!draft.trim()}
+                  className="px-5 font-outfit text-xs tracking-wider uppercase text-accent hover:text-ink disabled:text-muted/60 transition-colors duration-300"
+                >
+                  {t('assistant.send')}
+                </button>
+              )}
+            </form>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <button
+        ref={toggleRef}
+        type="button"
+        onClick={() => (open ? close() : setOpen(true))}
+        aria-expanded={open}
+        aria-controls="assistant-panel"
+        aria-label={open ? t('assistant.close') : t('assistant.open')}
+        className="w-14 h-14 rounded-full bg-accent text-on-accent flex items-center justify-center shadow-lg hover:bg-ink hover:text-canvas transition-colors duration-300"
+      >
+        <svg aria-hidden="true" className="w-6 h-6" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+          {open ? (
+            <path d="M6 6l12 12M18 6L6 18" />
+          ) : (
+            <path d="M4 5h16v11H9l-5 4V5z" strokeLinejoin="round" />
+          )}
+        </svg>
+      </button>
+    </div>
+  );
+};
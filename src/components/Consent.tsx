@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { LocaleLink, useI18n } from '../i18n';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { useScrollLock } from '../hooks/useScrollLock';
+import { useAnalytics } from '../analytics';
+import { useConsent, consentCategories, allChoices, defaultChoices, type ConsentChoices } from '../consent';
+
+const primaryButton =
+  'bg-accent text-on-accent font-outfit text-sm tracking-wider px-6 py-3 hover:bg-ink hover:text-canvas transition-colors duration-300';
+const secondaryButton =
+  'border border-line text-ink font-outfit text-sm tracking-wider px-6 py-3 hover:border-accent hover:text-accent transition-colors duration-300';
+
+// First-visit banner; stays until a choice is saved
+export const ConsentBanner = () => {
+  const { status, preferencesOpen, save, openPreferences } = useConsent();
+  const { t } = useI18n();
+
+  return (
+    <AnimatePresence>
+      {status === 'pending' && !preferencesOpen && (
+        <motion.section
+          aria-labelledby="consent-banner-title"
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          transition={{ duration: 0.5, ease: [0.22, 1, 0.36, 1] }}
+          className="fixed bottom-0 inset-x-0 z-40 p-4 md:p-6"
+        >
+          <div className="max-w-5xl mx-auto bg-canvas border border-line p-6 md:p-8 flex flex-col lg:flex-row lg:items-center gap-6">
+            <div className="flex-1">
+              <h2 id="consent-banner-title" className="font-cormorant text-2xl text-ink mb-2">
+                {t('consent.bannerTitle')}
+              </h2>
+              <p className="font-outfit text-sm text-muted leading-relaxed">
+                {t('consent.bannerBody')}{' '}
+                <LocaleLink to="/privacy" className="text-accent hover:text-ink transition-colors duration-300">
+                  {t('footer.privacy')}
+                </LocaleLink>
+              </p>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-3 shrink-0">
+              <button type="button" onClick={openPreferences} className={secondaryButton}>
+                {t('consent.customize')}
+              </button>
+              <button type="button" onClick={() => save(defaultChoices)} className={secondaryButton}>
+                {t('consent.rejectAll')}
+              </button>
+              <button type="button" onClick={() => save(allChoices)} className={primaryButton}>
+                {t('consent.acceptAll')}
+              </button>
+            </div>
+          </div>
+        </motion.section>
+      )}
+    </AnimatePresence>
+  );
+};
+
+// Preferences centre: one switch per category, reopened from the footer
+export const ConsentPreferences = () => {
+  const { choices, preferencesOpen, save, closePreferences } = useConsent();
+  const { doNotTrack } = useAnalytics();
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<ConsentChoices>(choices);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // Start from the saved choices each time the centre opens
+  useEffect(() => {
+    if (preferencesOpen) setDraft(choices);
+  }, [preferencesOpen, choices]);
+
+  useScrollLock(preferencesOpen);
+  useFocusTrap(dialogRef, preferencesOpen, { onEscape: closePreferences });
+
+  return (
+    <AnimatePresence>
+      {preferencesOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+          className="fixed inset-0 z-[60] bg-canvas/90 backdrop-blur-sm flex items-center justify-center p-4 md:p-6"
+          onClick={(e) => e.target === e.currentTarget && closePreferences()}
+        >
+          <motion.div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="consent-preferences-title"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+            className="w-full max-w-2xl max-h-full overflow-y-auto bg-canvas border border-line p-6 md:p-10 text-start"
+          >
+            <span className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4">
+              {t('consent.eyebrow')}
+            </span>
+            <h2 id="consent-preferences-title" className="font-cormorant text-3xl md:text-4xl text-ink leading-tight mb-4">
+              {t('consent.preferencesTitle')}
+            </h2>
+            <p className="font-outfit text-sm text-muted leading-relaxed mb-8">{t('consent.preferencesBody')}</p>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                save(draft);
+              }}
+            >
+              <div className="space-y-[1px] bg-line border border-line mb-8">
+                {consentCategories.map((category) => {
+                  const locked = category === 'necessary';
+                  const checked = draft[category];
+                  return (
+                    <label
+                      key={category}
+                      className={`flex items-start justify-between gap-6 bg-canvas p-6 ${locked ? 'cursor-default' : 'cursor-pointer'}`}
+                    >
+                      <span>
+                        <span className="font-cormorant text-xl text-ink block mb-1">{t(`consent.categories.${category}.label`)}</span>
+                        <span className="font-outfit text-sm text-muted leading-relaxed block">
+                          {t(`consent.categories.${category}.description`)}
+                        </span>
+                        {locked && (
+                          <span className="font-outfit text-xs tracking-wider text-accent block mt-2">{t('consent.alwaysOn')}</span>
+                        )}
+                        {category === 'analytics' && doNotTrack && (
+                          <span className="font-outfit text-xs tracking-wider text-accent block mt-2">{t('consent.doNotTrack')}</span>
+                        )}
+                      </span>
+                      <input
+                        type="checkbox"
+                        role="switch"
+                        className="sr-only peer"
+                        checked={checked}
+                        disabled={locked}
+                        onChange={(e) => setDraft({ ...draft, [category]: e.target.checked })}
+                      />
+                      <span
+                        aria-hidden="true"
+                        className={`relative shrink-0 mt-1 w-9 h-5 border transition-colors duration-300 peer-focus-visible:outline peer-focus-visible:outline-1 peer-focus-visible:outline-accent ${
+                          checked ? 'border-accent' : 'border-line'
+                        } ${locked ? 'opacity-60' : ''}`}
+                      >
+                        <span
+                          className={`absolute top-[3px] w-3 h-3 transition-all duration-300 ${
+                            checked ? 'start-[19px] bg-accent' : 'start-[3px] bg-muted'
+                          }`}
+                        />
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-3">
+                <button type="submit" className={`${primaryButton} sm:flex-1`}>
+                  {t('consent.save')}
+                </button>
+                <button type="button" onClick={() => save(defaultChoices)} className={secondaryButton}>
+                  {t('consent.rejectAll')}
+                </button>
+                <button type="button" onClick={() => save(allChoices)} className={secondaryButton}>
+                  {t('consent.acceptAll')}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+import { animate } from 'framer-motion';
+import { useMotionSettings } from '../motion';
+import { isHydrating } from '../hydration';
+
+// Counts from zero to `value` once `start` is true. The pre-rendered HTML and
+// the hydrating render show the final figure; the count is set up after mount.
+// Screen readers only get the final figure; the animated digits are hidden from them.
+export const CountUp = ({ value, format, start, delay = 0, duration = 1.8 }: {
+  value: number;
+  format: (value: number) => string;
+  start: boolean;
+  delay?: number;
+  duration?: number;
+}) => {
+  const { reduced } = useMotionSettings();
+  const [current, setCurrent] = useState(() => (reduced || typeof window === 'undefined' || isHydrating() ? value : 0));
+
+  useEffect(() => {
+    if (reduced) {
+      setCurrent(value);
+      return;
+    }
+    setCurrent(0);
+    if (!start) return;
+    const integer = Number.isInteger(value);
+    const controls = animate(0, value, {
+      duration,
+      delay,
+      ease: [0.22, 1, 0.36, 1],
+      onUpdate: (latest) => setCurrent(integer ? Math.round(latest) : latest),
+    });
+    return () => controls.stop();
+  }, [start, value, reduced, delay, duration]);
+
+  return (
+    <>
+      <span aria-hidden="true">{format(current)}</span>
+      <span className="sr-only">{format(value)}</span>
+    </>
+  );
+};
@@ -0,0 +1,13 @@
+// Toggle chip used by the filterable index pages
+export const FilterChip = ({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    aria-pressed={active}
+    className={`font-outfit text-xs tracking-wider px-4 py-2 border transition-colors duration-300 ${
+      active ? 'border-accent text-accent' : 'border-line text-muted hover:text-ink'
+    }`}
+  >
+    {label}
+  </button>
+);
@@ -0,0 +1,40 @@
+import { LocaleLink, useI18n } from '../i18n';
+import type { Insight } from '../insights';
+
+// Dates are stored as UTC calendar days; formatting in UTC keeps the day stable
+export const useInsightDate = () => {
+  const { config } = useI18n();
+  const format = new Intl.DateTimeFormat(config.intl, { dateStyle: 'long', timeZone: 'UTC' });
+  return (date: string) => format.format(new Date(date));
+};
+
+// Listing card shared by the insights index and the home page teaser
+export const InsightCard = ({ post }: { post: Insight }) => {
+  const { t } = useI18n();
+  const formatDate = useInsightDate();
+
+  return (
+    <LocaleLink to={`/insights/${post.slug}`} className="group flex flex-col h-full bg-canvas">
+      <div className="aspect-[1200/630] overflow-hidden bg-surface">
+        <img
+          src={post.cover}
+          alt=""
+          loading="lazy"
+          width={1200}
+          height={630}
+          className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
+        />
+      </div>
+      <div className="flex flex-col flex-1 p-8">
+        <span className="font-outfit text-xs tracking-[0.3em] text-accent uppercase mb-4">{post.tags.join(' · ')}</span>
+        <h3 className="font-cormorant text-2xl md:text-3xl text-ink leading-tight mb-4 group-hover:text-accent transition-colors duration-300">
+          {post.title}
+        </h3>
+        <p className="font-outfit text-sm text-muted leading-relaxed mb-6 flex-1">{post.summary}</p>
+        <span className="font-outfit text-xs text-muted/80 tracking-wider">
+          <time dateTime={post.date}>{formatDate(post.date)}</time> · {t('insights.readingTime', { minutes: post.readingTime })}
+        </span>
+      </div>
+    </LocaleLink>
+  );
+};
@@ -0,0 +1,79 @@
+import { useRef, useState, type CSSProperties } from 'react';
+import { motion, useAnimationFrame, useMotionValue } from 'framer-motion';
+import type { Client } from '../content';
+import { useI18n } from '../i18n';
+import { useLoopActive, useMotionSettings } from '../motion';
+
+// Scroll speed in pixels per second
+const SPEED = 40;
+
+// Logos are single-colour SVGs drawn as masks, so they follow the theme colours
+const logoStyle = (logo: string): CSSProperties => ({
+  maskImage: `url(${logo})`,
+  WebkitMaskImage: `url(${logo})`,
+  maskRepeat: 'no-repeat',
+  WebkitMaskRepeat: 'no-repeat',
+  maskSize: 'contain',
+  WebkitMaskSize: 'contain',
+  maskPosition: 'center',
+  WebkitMaskPosition: 'center',
+});
+
+const LogoList = ({ clients, duplicate = false, className = '' }: { clients: Client[]; duplicate?: boolean; className?: string }) => (
+  <ul aria-hidden={duplicate || undefined} className={`flex items-center ${className}`}>
+    {clients.map((client) => (
+      <li key={client.id} className="shrink-0 px-8 md:px-12">
+        <span
+          role={duplicate ? undefined : 'img'}
+          aria-label={duplicate ? undefined : client.name}
+          style={logoStyle(client.logo)}
+          className="block h-8 md:h-10 w-36 md:w-44 bg-muted"
+        />
+      </li>
+    ))}
+  </ul>
+);
+
+// Continuous client logo strip; pauses on hover, offscreen and in hidden tabs,
+// and becomes a static wall when looping animation is turned off
+export const LogoMarquee = ({ clients }: { clients: Client[] }) => {
+  const { config } = useI18n();
+  const { loops } = useMotionSettings();
+  const [ref, active] = useLoopActive();
+  const [hovered, setHovered] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+  const x = useMotionValue(0);
+  // Content flows towards the start edge in either reading direction
+  const sign = config.dir === 'rtl' ? 1 : -1;
+
+  useAnimationFrame((_, delta) => {
+    const width = listRef.current?.offsetWidth;
+    if (!active || hovered || !width) return;
+    // Wrap after one full copy, where the duplicate sits exactly where the original started
+    x.set((x.get() + (sign * SPEED * delta) / 1000) % width);
+  });
+
+  if (!loops) {
+    return (
+      <div ref={ref} className="max-w-7xl mx-auto px-6 md:px-12">
+        <LogoList clients={clients} className="flex-wrap justify-center gap-y-10" />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={ref}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      className="overflow-hidden [mask-image:linear-gradient(to_right,transparent,black_10%,black_90%,transparent)]"
+    >
+      <motion.div style={{ x }} className="flex w-max">
+        <div ref={listRef} className="flex shrink-0">
+          <LogoList clients={clients} />
+        </div>
+        <LogoList clients={clients} duplicate className="shrink-0" />
+      </motion.div>
+    </div>
+  );
+};
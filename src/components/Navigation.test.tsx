@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Navigation } from './Navigation';
+import { renderWithLocale } from '../test/render';
+
+const renderNavigation = (url?: string) => {
+  renderWithLocale(<Navigation />, { url });
+  return screen.getByRole('button', { name: 'Toggle menu' });
+};
+
+describe('Navigation menu toggle', () => {
+  it('starts closed', () => {
+    const toggle = renderNavigation();
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('opens the menu, moves focus into it and locks page scroll', async () => {
+    const user = userEvent.setup();
+    const toggle = renderNavigation();
+    await user.click(toggle);
+
+    const menu = screen.getByRole('dialog', { name: 'Site menu' });
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(toggle).toHaveAttribute('aria-controls', menu.id);
+    expect(document.body.style.overflow).toBe('hidden');
+
+    const [firstLink] = within(menu).getAllByRole('link');
+    await waitFor(() => expect(firstLink).toHaveFocus());
+  });
+
+  it('closes again from the toggle', async () => {
+    const user = userEvent.setup();
+    const toggle = renderNavigation();
+    await user.click(toggle);
+    await user.click(toggle);
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    expect(document.body.style.overflow).toBe('');
+  });
+
+  it('closes on Escape and hands focus back to the toggle', async () => {
+    const user = userEvent.setup();
+    const toggle = renderNavigation();
+    await user.click(toggle);
+    await user.keyboard('{Escape}');
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    await waitFor(() => expect(toggle).toHaveFocus());
+  });
+
+  it('closes when a section link is followed', async () => {
+    const user = userEvent.setup();
+    const toggle = renderNavigation();
+    await user.click(toggle);
+    await user.click(within(screen.getByRole('dialog')).getByRole('link', { name: 'Work' }));
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+  });
+
+  it('offers the other languages for the current page', async () => {
+    const user = userEvent.setup();
+    renderNavigation('/work');
+    await user.click(screen.getByRole('button', { name: 'Toggle menu' }));
+
+    const languages = within(screen.getByRole('dialog')).getByRole('group', { name: 'Language' });
+    const hrefs = within(languages).getAllByRole('link').map((link) => link.getAttribute('href'));
+    expect(hrefs).toEqual(['/work', '/fr/work', '/ar/work']);
+  });
+});
@@ -0,0 +1,247 @@
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Link, useLocation } from 'react-router-dom';
+import { locales, stripLocale, localizePath, LocaleLink, useI18n, useContent } from '../i18n';
+import { useMotionSettings } from '../motion';
+import { useTheme } from '../theme';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { useScrollLock } from '../hooks/useScrollLock';
+import { useScrollSpy } from '../hooks/useScrollSpy';
+import { useMediaQuery } from '../hooks/useMediaQuery';
+
+const MotionLink = motion.create(LocaleLink);
+
+// Pages that belong to a home-page section keep that section highlighted
+const sectionForPath = (path: string) => {
+  if (path.startsWith('/work')) return '#work';
+  if (path.startsWith('/services')) return '#services';
+  return null;
+};
+
+// Locale switcher: links to the current page in every other locale
+const LocaleSwitcher = () => {
+  const { locale, t } = useI18n();
+  const { pathname, search, hash } = useLocation();
+  const path = stripLocale(pathname);
+
+  return (
+    <div className="flex items-center gap-3" role="group" aria-label={t('nav.language')}>
+      {locales.map((option) => (
+        <Link
+          key={option.code}
+          to={`${localizePath(path, option.code)}${search}${hash}`}
+          lang={option.code}
+          hrefLang={option.code}
+          aria-current={option.code === locale ? 'true' : undefined}
+          title={option.label}
+          className={`font-outfit text-xs tracking-wider transition-colors duration-300 ${
+            option.code === locale ? 'text-accent' : 'text-muted hover:text-ink'
+          }`}
+        >
+          {option.short}
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+// Motion toggle: lets visitors override the OS reduced-motion setting
+const MotionToggle = () => {
+  const { reduced, setPreference } = useMotionSettings();
+  const { t } = useI18n();
+
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={reduced}
+      onClick={() => setPreference(reduced ? 'full' : 'reduced')}
+      className="flex items-center gap-2 font-outfit text-xs tracking-wider text-muted hover:text-ink transition-colors duration-300"
+    >
+      <span
+        aria-hidden="true"
+        className={`relative w-7 h-4 border transition-colors duration-300 ${reduced ? 'border-accent' : 'border-line'}`}
+      >
+        <span
+          className={`absolute top-[3px] w-2 h-2 transition-all duration-300 ${
+            reduced ? 'start-[15px] bg-accent' : 'start-[3px] bg-muted'
+          }`}
+        />
+      </span>
+      {t('nav.reduceMotion')}
+    </button>
+  );
+};
+
+// Theme toggle: switches between the light and dark themes, starting from the OS scheme
+const ThemeToggle = () => {
+  const { mode, setPreference } = useTheme();
+  const { t } = useI18n();
+  const light = mode === 'light';
+
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={light}
+      onClick={() => setPreference(light ? 'dark' : 'light')}
+      className="flex items-center gap-2 font-outfit text-xs tracking-wider text-muted hover:text-ink transition-colors duration-300"
+    >
+      <span
+        aria-hidden="true"
+        className={`w-3 h-3 rounded-full border transition-colors duration-300 ${light ? 'border-accent bg-accent' : 'border-muted'}`}
+      />
+      {t('nav.lightTheme')}
+    </button>
+  );
+};
+
+// Navigation
+export const Navigation = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scrolled, setScrolled] = useState(false);
+  const { t } = useI18n();
+  const { navigation } = useContent();
+  const { reduced } = useMotionSettings();
+  const location = useLocation();
+  const isDesktop = useMediaQuery('(min-width: 768px)');
+  const headerRef = useRef<HTMLElement>(null);
+  const firstLinkRef = useRef<HTMLAnchorElement>(null);
+
+  const path = stripLocale(location.pathname);
+  const isHome = path === '/';
+  const spied = useScrollSpy(
+    navigation.map((item) => item.href.slice(1)),
+    isHome
+  );
+  const activeHref = isHome ? (spied ? `#${spied}` : null) : sectionForPath(path);
+
+  useEffect(() => {
+    const handleScroll = () => setScrolled(window.scrollY > 50);
+    handleScroll();
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => window.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  // Any navigation, or growing past the mobile breakpoint, closes the menu
+  useEffect(() => setIsOpen(false), [location.key]);
+  useEffect(() => {
+    if (isDesktop) setIsOpen(false);
+  }, [isDesktop]);
+
+  useScrollLock(isOpen);
+  useFocusTrap(headerRef, isOpen, { onEscape: () => setIsOpen(false), initialFocus: firstLinkRef });
+
+  return (
+    <header ref={headerRef} data-site-header>
+      <a
+        href="#main"
+        className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:start-4 focus:z-[60] focus:bg-accent focus:text-on-accent focus:px-4 focus:py-2 font-outfit text-sm"
+      >
+        {t('nav.skip')}
+      </a>
+
+      <motion.nav
+        aria-label={t('nav.primary')}
+        initial={reduced ? false : { y: -100 }}
+        animate={{ y: 0 }}
+        transition={{ duration: 0.8, delay: 0.2, ease: [0.22, 1, 0.36, 1] }}
+        className={`fixed top-0 left-0 right-0 z-50 transition-all duration-500 ${
+          scrolled || isOpen ? 'bg-canvas/95 backdrop-blur-md' : ''
+        }`}
+      >
+        <div className="max-w-7xl mx-auto px-6 md:px-12 py-6 flex items-center justify-between">
+          <LocaleLink to="/" className="font-cormorant text-2xl md:text-3xl text-ink tracking-tight">
+            Nexus<span className="text-accent">AI</span>
+          </LocaleLink>
+
+          {/* Desktop Nav */}
+          <div className="hidden md:flex items-center gap-12">
+            {navigation.map((item, i) => {
+              const active = item.href === activeHref;
+              return (
+                <MotionLink
+                  key={item.href}
+                  to={{ pathname: '/', hash: item.href }}
+                  aria-current={active ? 'location' : undefined}
+                  className={`relative font-outfit text-sm tracking-wider transition-colors duration-300 ${
+                    active ? 'text-ink' : 'text-muted hover:text-ink'
+                  }`}
+                  initial={reduced ? false : { opacity: 0, y: -20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.5, delay: 0.3 + i * 0.1 }}
+                >
+                  {item.label}
+                  {active && (
+                    <motion.span
+                      layoutId="nav-active"
+                      className="absolute -bottom-2 inset-x-0 h-[1px] bg-accent"
+                      transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+                    />
+                  )}
+                </MotionLink>
+              );
+            })}
+            <LocaleSwitcher />
+            <ThemeToggle />
+            <MotionToggle />
+          </div>
+
+          {/* Mobile menu button */}
+          <button
+            type="button"
+            onClick={() => setIsOpen(!isOpen)}
+            className="md:hidden w-12 h-12 flex items-center justify-center"
+            aria-label={t('nav.toggleMenu')}
+            aria-expanded={isOpen}
+            aria-controls="mobile-menu"
+          >
+            <div className="relative w-6 h-5">
+              <span className={`absolute left-0 w-full h-[1.5px] bg-ink transition-all duration-300 ${isOpen ? 'top-2 rotate-45' : 'top-0'}`} />
+              <span className={`absolute left-0 top-2 w-full h-[1.5px] bg-ink transition-opacity duration-300 ${isOpen ? 'opacity-0' : 'opacity-100'}`} />
+              <span className={`absolute left-0 w-full h-[1.5px] bg-ink transition-all duration-300 ${isOpen ? 'top-2 -rotate-45' : 'top-4'}`} />
+            </div>
+          </button>
+        </div>
+      </motion.nav>
+
+      {/* Mobile Menu */}
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            id="mobile-menu"
+            role="dialog"
+            aria-modal="true"
+            aria-label={t('nav.menu')}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.3 }}
+            className="fixed inset-0 z-40 bg-canvas md:hidden"
+          >
+            <div className="flex flex-col items-center justify-center h-full gap-8">
+              {navigation.map((item, i) => (
+                <MotionLink
+                  key={item.href}
+                  ref={i === 0 ? firstLinkRef : undefined}
+                  to={{ pathname: '/', hash: item.href }}
+                  onClick={() => setIsOpen(false)}
+                  aria-current={item.href === activeHref ? 'location' : undefined}
+                  className={`font-cormorant text-4xl ${item.href === activeHref ? 'text-accent' : 'text-ink'}`}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.3, delay: i * 0.1 }}
+                >
+                  {item.label}
+                </MotionLink>
+              ))}
+              <LocaleSwitcher />
+              <ThemeToggle />
+              <MotionToggle />
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </header>
+  );
+};
@@ -0,0 +1,110 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLoopActive } from '../motion';
+import { useTheme, resolveColors } from '../theme';
+import { createNeuralField, hexToRgb, type NeuralFieldRenderer } from '../neuralField';
+
+// The field is ambient; 30 frames a second keeps it smooth at half the cost
+const MAX_FPS = 30;
+const MAX_PIXEL_RATIO = 2;
+
+// WebGL particle network behind the hero. Follows the pointer and scroll,
+// takes its colours from the theme, and only animates while on screen.
+// Reports whether it is drawing, so the hero can show its fallback otherwise.
+export const NeuralField = ({ onReadyChange }: { onReadyChange: (ready: boolean) => void }) => {
+  const { mode, palette } = useTheme();
+  const [ref, active] = useLoopActive();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [renderer, setRenderer] = useState<NeuralFieldRenderer | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Set up once; a lost context (GPU reset, too many tabs) falls back for good
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const field = canvas && createNeuralField(canvas);
+    if (!canvas || !field) {
+      setFailed(true);
+      return;
+    }
+
+    const resize = () => {
+      const { width, height } = canvas.getBoundingClientRect();
+      field.resize(width, height, Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO));
+    };
+    const handleLost = (e: Event) => {
+      e.preventDefault();
+      setFailed(true);
+    };
+    // The canvas sits behind the content, so the pointer is followed page-wide
+    const handlePointerMove = (e: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      field.setPointer({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    const handlePointerLeave = () => field.setPointer(null);
+    // A lifted finger should not leave a hole in the field
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.pointerType !== 'mouse') field.setPointer(null);
+    };
+    const handleScroll = () => {
+      const rect = canvas.getBoundingClientRect();
+      field.setScroll(rect.height ? -rect.top / rect.height : 0);
+    };
+
+    resize();
+    handleScroll();
+    window.addEventListener('resize', resize);
+    window.addEventListener('pointermove', handlePointerMove, { passive: true });
+    document.documentElement.addEventListener('pointerleave', handlePointerLeave);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    canvas.addEventListener('webglcontextlost', handleLost);
+    setRenderer(field);
+
+    return () => {
+      window.removeEventListener('resize', resize);
+      window.removeEventListener('pointermove', handlePointerMove);
+      document.documentElement.removeEventListener('pointerleave', handlePointerLeave);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+      window.removeEventListener('scroll', handleScroll);
+      canvas.removeEventListener('webglcontextlost', handleLost);
+      field.destroy();
+      setRenderer(null);
+      onReadyChange(false);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!renderer) return;
+    const colors = resolveColors(mode, palette);
+    renderer.setColors({ node: hexToRgb(colors.accent), link: hexToRgb(colors.ink) });
+  }, [renderer, mode, palette]);
+
+  // Frame loop, capped and stopped while offscreen or in a hidden tab
+  useEffect(() => {
+    if (!renderer || failed || !active) return;
+    let frame = 0;
+    let last = 0;
+    const tick = (time: number) => {
+      frame = requestAnimationFrame(tick);
+      if (time - last < 1000 / MAX_FPS - 1) return;
+      if (!last) onReadyChange(true);
+      last = time;
+      renderer.frame(time);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [renderer, failed, active]);
+
+  useEffect(() => {
+    if (failed) onReadyChange(false);
+  }, [failed]);
+
+  if (failed) return null;
+
+  return (
+    <div ref={ref} aria-hidden="true" className="absolute inset-0 pointer-events-none">
+      <canvas ref={canvasRef} className="w-full h-full block" />
+    </div>
+  );
+};
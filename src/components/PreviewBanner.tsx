@@ -0,0 +1,30 @@
+import { useI18n } from '../i18n';
+import { usePreview } from '../cms';
+
+// Shown while draft mode is on, so unpublished copy is never mistaken for the live site
+export const PreviewBanner = () => {
+  const { status, error, exit } = usePreview();
+  const { t } = useI18n();
+
+  if (status === 'off') return null;
+
+  return (
+    <div className="fixed bottom-4 start-4 z-40 flex items-center gap-4 bg-accent text-on-accent font-outfit text-sm px-4 py-3 shadow-lg max-w-[calc(100vw-6rem)]">
+      <div role="status" className="min-w-0">
+        <span className="flex items-center gap-2">
+          <span aria-hidden="true" className={`w-2 h-2 rounded-full bg-current ${status === 'loading' ? 'animate-pulse' : ''}`} />
+          {status === 'loading' ? t('preview.loading') : status === 'error' ? t('preview.error') : t('preview.active')}
+        </span>
+        {/* The CMS's own reason, in English, so editors can fix the draft */}
+        {status === 'error' && error && (
+          <pre dir="ltr" className="mt-2 max-h-40 overflow-auto whitespace-pre-wrap break-words font-mono text-xs opacity-90">
+            {error}
+          </pre>
+        )}
+      </div>
+      <button type="button" onClick={exit} className="underline underline-offset-4 hover:no-underline whitespace-nowrap">
+        {t('preview.exit')}
+      </button>
+    </div>
+  );
+};
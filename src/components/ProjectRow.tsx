@@ -0,0 +1,51 @@
+import { motion } from 'framer-motion';
+import type { Project } from '../content';
+import { LocaleLink } from '../i18n';
+import { useAnalytics } from '../analytics';
+
+const MotionLink = motion.create(LocaleLink);
+
+// Project list row; the name and category share layout ids with the case-study
+// header so the row morphs into the detail page on navigation
+export const ProjectRow = ({ project, index, visible }: { project: Project; index: number; visible: boolean }) => {
+  const { track } = useAnalytics();
+
+  return (
+    <MotionLink
+      to={`/work/${project.slug}`}
+      onClick={() => track('work_open', { project: project.slug })}
+      initial={{ opacity: 0 }}
+      animate={visible ? { opacity: 1 } : { opacity: 0 }}
+      transition={{ duration: 0.6, delay: index * 0.15 }}
+      className="group block bg-canvas p-6 md:p-8 hover:bg-surface transition-colors duration-300"
+    >
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex flex-col md:flex-row md:items-center gap-2 md:gap-8">
+          <motion.span
+            layoutId={`project-name-${project.slug}`}
+            className="font-cormorant text-3xl md:text-4xl text-ink group-hover:text-accent transition-colors duration-300"
+          >
+            {project.name}
+          </motion.span>
+          <motion.span
+            layoutId={`project-category-${project.slug}`}
+            className="font-outfit text-sm text-muted tracking-wider"
+          >
+            {project.category}
+          </motion.span>
+        </div>
+        <div className="flex items-center gap-6">
+          <span className="font-outfit text-sm text-muted">{project.year}</span>
+          <motion.div
+            className="text-accent opacity-0 group-hover:opacity-100 transition-opacity duration-300"
+            whileHover={{ x: 4 }}
+          >
+            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" className="stroke-current rtl:-scale-x-100">
+              <path d="M5 12h14M13 6l6 6-6 6" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+            </svg>
+          </motion.div>
+        </div>
+      </div>
+    </MotionLink>
+  );
+};
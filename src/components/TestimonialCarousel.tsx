@@ -0,0 +1,185 @@
+import { useEffect, useState, type FocusEvent, type KeyboardEvent } from 'react';
+import { motion, AnimatePresence, type PanInfo } from 'framer-motion';
+import type { Testimonial } from '../content';
+import { LocaleLink, useI18n } from '../i18n';
+import { useAnalytics } from '../analytics';
+import { useLoopActive, useMotionSettings } from '../motion';
+
+const ADVANCE_MS = 8000;
+// A drag past this distance (px) or speed (px/s) counts as a swipe
+const SWIPE_DISTANCE = 80;
+const SWIPE_VELOCITY = 500;
+
+// `custom` is the physical direction the new slide travels from: 1 from the end, -1 from the start
+const slideVariants = {
+  enter: (direction: number) => ({ opacity: 0, x: direction * 60 }),
+  center: { opacity: 1, x: 0 },
+  exit: (direction: number) => ({ opacity: 0, x: direction * -60 }),
+};
+
+const controlButton =
+  'w-11 h-11 flex items-center justify-center border border-line text-muted hover:border-accent hover:text-accent transition-colors duration-300';
+
+// Auto-advancing testimonial carousel. Rotation stops under reduced motion, while
+// hovered or focused, offscreen or in a hidden tab, and once the visitor pauses it.
+export const TestimonialCarousel = ({ testimonials }: { testimonials: Testimonial[] }) => {
+  const { t, config } = useI18n();
+  const { track } = useAnalytics();
+  const { loops } = useMotionSettings();
+  const [rootRef, loopActive] = useLoopActive();
+  const [[index, direction], setSlide] = useState([0, 1]);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+  const [stopped, setStopped] = useState(false);
+
+  const total = testimonials.length;
+  const current = testimonials[index];
+  // Logical next/previous map to physical left/right by reading direction
+  const sign = config.dir === 'rtl' ? -1 : 1;
+  const rotating = loopActive && !stopped && total > 1;
+  const advancing = rotating && !hovered && !focused;
+
+  const show = (next: number, step: number) => setSlide([(next + total) % total, step]);
+  const next = () => show(index + 1, 1);
+  const previous = () => show(index - 1, -1);
+
+  // Keyed on the index so manual navigation restarts the countdown
+  useEffect(() => {
+    if (!advancing) return;
+    const timer = window.setTimeout(() => setSlide(([i]) => [(i + 1) % total, 1]), ADVANCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [advancing, index, total]);
+
+  if (!current) return null;
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const forward = sign === 1 ? 'ArrowRight' : 'ArrowLeft';
+    const back = sign === 1 ? 'ArrowLeft' : 'ArrowRight';
+    if (e.key === forward) next();
+    else if (e.key === back) previous();
+    else if (e.key === 'Home') show(0, -1);
+    else if (e.key === 'End') show(total - 1, 1);
+    else return;
+    e.preventDefault();
+  };
+
+  const handleBlur = (e: FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFocused(false);
+  };
+
+  const handleDragEnd = (_: unknown, { offset, velocity }: PanInfo) => {
+    const swipe = offset.x * sign;
+    const speed = velocity.x * sign;
+    if (swipe < -SWIPE_DISTANCE || speed < -SWIPE_VELOCITY) next();
+    else if (swipe > SWIPE_DISTANCE || speed > SWIPE_VELOCITY) previous();
+  };
+
+  return (
+    <div
+      ref={rootRef}
+      role="region"
+      aria-roledescription={t('testimonials.carousel')}
+      aria-label={t('testimonials.label')}
+      onKeyDown={handleKeyDown}
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => setHovered(false)}
+      onFocus={() => setFocused(true)}
+      onBlur={handleBlur}
+    >
+      {/* Announced only while not rotating, so automatic changes do not interrupt */}
+      <div aria-live={advancing ? 'off' : 'polite'} className="relative overflow-hidden">
+        <AnimatePresence mode="wait" initial={false} custom={direction * sign}>
+          <motion.figure
+            key={current.id}
+            role="group"
+            aria-roledescription={t('testimonials.slide')}
+            aria-label={t('testimonials.position', { index: index + 1, total })}
+            custom={direction * sign}
+            variants={slideVariants}
+            initial="enter"
+            animate="center"
+            exit="exit"
+            transition={{ duration: 0.5, ease: [0.22, 1, 0.36, 1] }}
+            drag={total > 1 ? 'x' : false}
+            dragConstraints={{ left: 0, right: 0 }}
+            dragElastic={0.2}
+            onDragEnd={handleDragEnd}
+            className="cursor-grab active:cursor-grabbing touch-pan-y select-none"
+          >
+            <span aria-hidden="true" className="font-cormorant text-7xl md:text-8xl text-accent leading-none block h-12 md:h-16">
+              &ldquo;
+            </span>
+            <blockquote className="font-cormorant text-2xl md:text-4xl text-ink leading-snug max-w-5xl">
+              <p>{current.quote}</p>
+            </blockquote>
+            <figcaption className="mt-10 flex flex-col md:flex-row md:items-end md:justify-between gap-6">
+              <div>
+                <span className="font-outfit text-ink block">{current.person}</span>
+                <span className="font-outfit text-sm text-muted">
+                  {current.role}, {current.company}
+                </span>
+              </div>
+              <LocaleLink
+                to={`/work/${current.project}`}
+                onClick={() => track('work_open', { project: current.project })}
+                className="font-outfit text-sm text-muted hover:text-accent tracking-wider transition-colors duration-300 flex items-center gap-2"
+              >
+                {t('testimonials.caseStudy')}
+                <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
+                  <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                </svg>
+              </LocaleLink>
+            </figcaption>
+          </motion.figure>
+        </AnimatePresence>
+      </div>
+
+      {total > 1 && (
+        <div className="mt-12 flex items-center justify-between gap-6">
+          <div role="group" aria-label={t('testimonials.picker')} className="flex items-center">
+            {testimonials.map((testimonial, i) => (
+              <button
+                key={testimonial.id}
+                type="button"
+                aria-label={t('testimonials.goTo', { index: i + 1 })}
+                aria-current={i === index ? 'true' : undefined}
+                onClick={() => show(i, i < index ? -1 : 1)}
+                className="group p-2"
+              >
+                <span
+                  className={`block h-[2px] w-8 transition-colors duration-300 ${
+                    i === index ? 'bg-accent' : 'bg-line group-hover:bg-muted'
+                  }`}
+                />
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            {loops && (
+              <button
+                type="button"
+                onClick={() => setStopped((value) => !value)}
+                aria-label={stopped ? t('testimonials.play') : t('testimonials.pause')}
+                className={controlButton}
+              >
+                <svg width="14" height="14" viewBox="0 0 14 14" aria-hidden="true" className="fill-current">
+                  {stopped ? <path d="M3 1.5v11l9-5.5z" /> : <path d="M3 1.5h3v11H3zM8 1.5h3v11H8z" />}
+                </svg>
+              </button>
+            )}
+            <button type="button" onClick={previous} aria-label={t('testimonials.previous')} className={controlButton}>
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none" aria-hidden="true" className="stroke-current rotate-180 rtl:rotate-0">
+                <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+            </button>
+            <button type="button" onClick={next} aria-label={t('testimonials.next')} className={controlButton}>
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none" aria-hidden="true" className="stroke-current rtl:-scale-x-100">
+                <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import { motion } from 'framer-motion';
+import { useInView } from '../hooks/useInView';
+import { useReveal } from '../motion';
+
+// Animated text reveal component
+export const TextReveal = ({ children, delay = 0 }: { children: string; delay?: number }) => {
+  const [ref, inView] = useInView();
+  const { hidden, shown, initial } = useReveal({ y: '100%' }, { y: 0 });
+
+  return (
+    <span ref={ref} className="inline-block overflow-hidden">
+      <motion.span
+        className="inline-block"
+        initial={initial}
+        animate={inView ? shown : hidden}
+        transition={{ duration: 0.8, delay, ease: [0.22, 1, 0.36, 1] }}
+      >
+        {children}
+      </motion.span>
+    </span>
+  );
+};
@@ -0,0 +1,57 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { defaultChoices, readConsent, writeConsent, type ConsentChoices } from './consent';
+
+interface ConsentSettings {
+  choices: ConsentChoices;
+  // 'unknown' until storage has been read in the browser, so the server and
+  // hydration render no banner
+  status: 'unknown' | 'pending' | 'decided';
+  save: (choices: ConsentChoices) => void;
+  preferencesOpen: boolean;
+  openPreferences: () => void;
+  closePreferences: () => void;
+}
+
+const ConsentContext = createContext<ConsentSettings>({
+  choices: defaultChoices,
+  status: 'unknown',
+  save: () => {},
+  preferencesOpen: false,
+  openPreferences: () => {},
+  closePreferences: () => {},
+});
+
+export const ConsentProvider = ({ children }: { children: ReactNode }) => {
+  const [choices, setChoices] = useState<ConsentChoices>(defaultChoices);
+  const [status, setStatus] = useState<ConsentSettings['status']>('unknown');
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  useEffect(() => {
+    const stored = readConsent();
+    setChoices(stored?.choices ?? defaultChoices);
+    setStatus(stored ? 'decided' : 'pending');
+  }, []);
+
+  const save = (next: ConsentChoices) => {
+    setChoices(writeConsent(next).choices);
+    setStatus('decided');
+    setPreferencesOpen(false);
+  };
+
+  return (
+    <ConsentContext.Provider
+      value={{
+        choices,
+        status,
+        save,
+        preferencesOpen,
+        openPreferences: () => setPreferencesOpen(true),
+        closePreferences: () => setPreferencesOpen(false),
+      }}
+    >
+      {children}
+    </ConsentContext.Provider>
+  );
+};
+
+export const useConsent = () => useContext(ConsentContext);
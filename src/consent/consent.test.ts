@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { CONSENT_VERSION, defaultChoices, hasConsent, readConsent, writeConsent } from './consent';
+
+const store = (record: unknown) => localStorage.setItem('nexus:consent', JSON.stringify(record));
+
+describe('consent record', () => {
+  it('round-trips the current version and always keeps necessary storage on', () => {
+    const written = writeConsent({ necessary: false, analytics: true });
+    expect(written.version).toBe(CONSENT_VERSION);
+    expect(readConsent()?.choices).toEqual({ necessary: true, analytics: true });
+    expect(hasConsent('analytics')).toBe(true);
+  });
+
+  it('ignores choices stored under an older policy version', () => {
+    store({ version: CONSENT_VERSION - 1, choices: { necessary: true, analytics: true }, updatedAt: '' });
+    expect(readConsent()).toBeNull();
+    expect(hasConsent('analytics')).toBe(false);
+  });
+
+  it('fills categories missing from a stored record with the defaults', () => {
+    store({ version: CONSENT_VERSION, choices: { analytics: true }, updatedAt: '' });
+    expect(readConsent()?.choices).toEqual({ ...defaultChoices, analytics: true });
+  });
+
+  it('treats unreadable records as no choice', () => {
+    localStorage.setItem('nexus:consent', '{not json');
+    expect(readConsent()).toBeNull();
+    store({ version: CONSENT_VERSION });
+    expect(readConsent()).toBeNull();
+  });
+});
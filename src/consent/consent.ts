@@ -0,0 +1,46 @@
+// Consent categories and their persisted record
+
+export const consentCategories = ['necessary', 'analytics'] as const;
+
+export type ConsentCategory = (typeof consentCategories)[number];
+export type ConsentChoices = Record<ConsentCategory, boolean>;
+
+// Bump whenever the privacy policy changes what is collected: stored choices
+// from an older version are ignored, so every visitor is asked again
+export const CONSENT_VERSION = 3;
+
+const STORAGE_KEY = 'nexus:consent';
+
+export interface StoredConsent {
+  version: number;
+  choices: ConsentChoices;
+  updatedAt: string;
+}
+
+// Necessary storage cannot be refused; everything else is off until allowed
+export const defaultChoices: ConsentChoices = { necessary: true, analytics: false };
+
+export const allChoices: ConsentChoices = { necessary: true, analytics: true };
+
+export const readConsent = (): StoredConsent | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as StoredConsent | null;
+    if (!stored || stored.version !== CONSENT_VERSION || typeof stored.choices !== 'object') return null;
+    return { ...stored, choices: { ...defaultChoices, ...stored.choices, necessary: true } };
+  } catch {
+    return null;
+  }
+};
+
+export const writeConsent = (choices: ConsentChoices): StoredConsent => {
+  const record = { version: CONSENT_VERSION, choices: { ...choices, necessary: true }, updatedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+  } catch {
+    // Storage can be unavailable in private modes; the choice lasts for the session
+  }
+  return record;
+};
+
+// Whether a category is allowed right now, read from storage so non-React code can check it
+export const hasConsent = (category: ConsentCategory) => (readConsent()?.choices ?? defaultChoices)[category];
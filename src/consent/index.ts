@@ -0,0 +1,2 @@
+export { ConsentProvider, useConsent } from './ConsentProvider';
+export * from './consent';
@@ -0,0 +1,229 @@
+// Consultation intake: form model, validation, spam guards and submission adapters
+import type { MessageKey } from './i18n';
+import type { AssessmentResult } from './assessment';
+import { queueConsultation } from './pwa';
+
+export const budgetBands = ['under-50k', '50k-150k', '150k-500k', '500k-plus'] as const;
+
+export const timelines = ['immediately', '1-3-months', '3-6-months', 'exploring'] as const;
+
+export type BudgetBand = (typeof budgetBands)[number];
+export type Timeline = (typeof timelines)[number];
+
+export interface ConsultationValues {
+  name: string;
+  email: string;
+  company: string;
+  budget: BudgetBand | '';
+  timeline: Timeline | '';
+  brief: string;
+}
+
+export type ConsultationField = keyof ConsultationValues;
+export type ConsultationErrors = Partial<Record<ConsultationField, MessageKey>>;
+
+export interface ConsultationRequest {
+  name: string;
+  email: string;
+  company: string;
+  budget: BudgetBand;
+  timeline: Timeline;
+  brief: string;
+  // Readiness assessment the visitor completed before writing to us, if any
+  assessment?: AssessmentResult;
+  submittedAt: string;
+}
+
+export const emptyConsultation: ConsultationValues = {
+  name: '',
+  email: '',
+  company: '',
+  budget: '',
+  timeline: '',
+  brief: '',
+};
+
+export const BRIEF_MIN_LENGTH = 20;
+export const BRIEF_MAX_LENGTH = 2000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Returns the message key of the first failed rule; the form translates it
+// with BRIEF_MIN_LENGTH / BRIEF_MAX_LENGTH as the min / max placeholders
+export const validateField = (field: ConsultationField, values: ConsultationValues): MessageKey | undefined => {
+  const value = values[field].trim();
+
+  switch (field) {
+    case 'name':
+      if (!value) return 'contact.errors.nameRequired';
+      if (value.length < 2) return 'contact.errors.nameShort';
+      return;
+    case 'email':
+      if (!value) return 'contact.errors.emailRequired';
+      if (!EMAIL_PATTERN.test(value)) return 'contact.errors.emailInvalid';
+      return;
+    case 'company':
+      if (!value) return 'contact.errors.companyRequired';
+      return;
+    case 'budget':
+      if (!(budgetBands as readonly string[]).includes(value)) return 'contact.errors.budgetRequired';
+      return;
+    case 'timeline':
+      if (!(timelines as readonly string[]).includes(value)) return 'contact.errors.timelineRequired';
+      return;
+    case 'brief':
+      if (value.length < BRIEF_MIN_LENGTH) return 'contact.errors.briefShort';
+      if (value.length > BRIEF_MAX_LENGTH) return 'contact.errors.briefLong';
+      return;
+  }
+};
+
+export const validateConsultation = (values: ConsultationValues): ConsultationErrors => {
+  const errors: ConsultationErrors = {};
+  (Object.keys(values) as ConsultationField[]).forEach((field) => {
+    const error = validateField(field, values);
+    if (error) errors[field] = error;
+  });
+  return errors;
+};
+
+export const toConsultationRequest = (values: ConsultationValues, assessment?: AssessmentResult): ConsultationRequest => ({
+  name: values.name.trim(),
+  email: values.email.trim(),
+  company: values.company.trim(),
+  budget: values.budget as BudgetBand,
+  timeline: values.timeline as Timeline,
+  brief: values.brief.trim(),
+  ...(assessment && { assessment }),
+  submittedAt: new Date().toISOString(),
+});
+
+// Spam guards: a hidden honeypot field humans never fill, and a minimum
+// time between the form rendering and its submission.
+export const HONEYPOT_FIELD = 'website';
+export const MIN_FILL_TIME_MS = 3000;
+
+export const isLikelySpam = ({ honeypot, renderedAt, now = Date.now() }: {
+  honeypot: string;
+  renderedAt: number;
+  now?: number;
+}) => honeypot.trim() !== '' || now - renderedAt < MIN_FILL_TIME_MS;
+
+// Submission adapters
+export interface SubmissionResult {
+  ok: boolean;
+  reference?: string;
+  // Server-provided explanation, shown verbatim when present
+  message?: string;
+  // `unavailable`: this build has nowhere to send requests
+  error?: 'network' | 'rejected' | 'unavailable';
+  // Saved on this device by the service worker, to be sent when the network returns
+  queued?: boolean;
+}
+
+export interface SubmissionAdapter {
+  submit: (request: ConsultationRequest, signal?: AbortSignal) => Promise<SubmissionResult>;
+}
+
+export const createHttpAdapter = (endpoint: string): SubmissionAdapter => ({
+  async submit(request, signal) {
+    const body = JSON.stringify(request);
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body,
+        signal,
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        return { ok: false, error: 'rejected', message: result.message };
+      }
+      return { ok: true, reference: result.reference };
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // Offline: where a service worker runs, it delivers the request later
+      if (await queueConsultation(endpoint, body)) return { ok: true, queued: true };
+      return { ok: false, error: 'network' };
+    }
+  },
+});
+
+export const createMockAdapter = ({ latency = 800, fail = false }: { latency?: number; fail?: boolean } = {}): SubmissionAdapter & {
+  requests: ConsultationRequest[];
+} => {
+  const requests: ConsultationRequest[] = [];
+  return {
+    requests,
+    submit: (request, signal) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          if (fail) {
+            resolve({ ok: false, error: 'rejected' });
+            return;
+          }
+          requests.push(request);
+          resolve({ ok: true, reference: `MOCK-${requests.length.toString().padStart(4, '0')}` });
+        }, latency);
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new DOMException('Aborted', 'AbortError'));
+        });
+      }),
+  };
+};
+
+// Stands in for a missing endpoint outside development: the visitor is told
+// to email instead of being thanked for a request that goes nowhere
+export const createUnavailableAdapter = (): SubmissionAdapter => ({
+  submit: async () => ({ ok: false, error: 'unavailable' }),
+});
+
+const endpoint = import.meta.env.VITE_CONSULTATION_ENDPOINT;
+// The mock only ever runs in the dev server and tests
+const mocksAllowed = import.meta.env.DEV || import.meta.env.MODE === 'test';
+
+export const defaultConsultationAdapter: SubmissionAdapter = endpoint
+  ? createHttpAdapter(endpoint)
+  : mocksAllowed
+    ? createMockAdapter()
+    : createUnavailableAdapter();
+
+// Submission state machine
+export type SubmissionState =
+  | { status: 'idle' }
+  | { status: 'submitting' }
+  // `delivery` follows a request queued offline until the service worker sends it
+  | { status: 'success'; reference?: string; delivery?: 'queued' | 'delivered' }
+  | { status: 'failure'; message: string };
+
+export type SubmissionEvent =
+  | { type: 'SUBMIT' }
+  | { type: 'RESOLVE'; reference?: string; queued?: boolean }
+  | { type: 'REJECT'; message: string }
+  | { type: 'DELIVER'; reference?: string }
+  | { type: 'BOUNCE'; message: string }
+  | { type: 'RESET' };
+
+export const submissionReducer = (state: SubmissionState, event: SubmissionEvent): SubmissionState => {
+  switch (event.type) {
+    case 'SUBMIT':
+      // Ignore re-submits while a request is in flight or already accepted
+      return state.status === 'submitting' || state.status === 'success' ? state : { status: 'submitting' };
+    case 'RESOLVE':
+      return state.status === 'submitting'
+        ? { status: 'success', reference: event.reference, ...(event.queued && { delivery: 'queued' }) }
+        : state;
+    case 'REJECT':
+      return state.status === 'submitting' ? { status: 'failure', message: event.message } : state;
+    // A queued request reached the server, or the server turned it down
+    case 'DELIVER':
+      return state.status === 'success' && state.delivery === 'queued'
+        ? { status: 'success', reference: event.reference, delivery: 'delivered' }
+        : state;
+    case 'BOUNCE':
+      return state.status === 'success' && state.delivery === 'queued' ? { status: 'failure', message: event.message } : state;
+    case 'RESET':
+      return { status: 'idle' };
+  }
+};
@@ -0,0 +1,85 @@
+// Site content, loaded from the JSON sources in this directory
+import navigationSource from './navigation.json';
+import servicesSource from './services.json';
+import projectsSource from './projects.json';
+import statsSource from './stats.json';
+import legalSource from './legal.json';
+import teamSource from './team.json';
+import testimonialsSource from './testimonials.json';
+import clientsSource from './clients.json';
+import published from 'virtual:nexus-cms';
+import { applyEntries } from '../cms/entries';
+import { defaultLocale, type Locale } from '../i18n/config';
+import type { SiteContent, ContentOverrides, Stat, Translation } from './types';
+
+export * from './types';
+export { sectionIds } from './validate';
+
+const bundled: SiteContent = {
+  navigation: navigationSource,
+  services: servicesSource,
+  projects: projectsSource,
+  stats: statsSource as Stat[],
+  legal: legalSource,
+  team: teamSource,
+  testimonials: testimonialsSource,
+  clients: clientsSource,
+};
+
+// Entries published in the CMS for the default locale replace the bundled ones
+export const content = applyEntries(bundled, published[defaultLocale]);
+
+export const { navigation, services, projects, stats, legal, team, testimonials, clients } = content;
+
+const overrides = Object.fromEntries(
+  Object.entries(import.meta.glob<ContentOverrides>('./locales/*.json', { eager: true, import: 'default' })).map(
+    ([file, value]) => [file.replace(/^.*\/(.+)\.json$/, '$1'), value]
+  )
+);
+
+const localized = new Map<string, SiteContent>();
+
+type StringKey<T> = { [K in keyof T]: T[K] extends string ? K : never }[keyof T];
+
+// Translated fields replace the source ones; lists are translated item by item,
+// and list items keep any field the translation leaves out
+const translateEntry = <T extends object>(entry: T, translation?: Translation<T>): T => {
+  if (!translation) return entry;
+  const result: Record<string, unknown> = Object.fromEntries(Object.entries(entry));
+  Object.entries(translation).forEach(([field, value]) => {
+    const source = result[field];
+    result[field] =
+      Array.isArray(source) && Array.isArray(value)
+        ? source.map((item, i) => (typeof item === 'object' && item !== null ? translateEntry(item, value[i]) : value[i] ?? item))
+        : value;
+  });
+  return result as T;
+};
+
+// Field translations are keyed by each entry's key, as in the collection schema
+const merge = <T extends object>(entries: T[], key: StringKey<T>, translations?: Record<string, Translation<T>>) =>
+  translations ? entries.map((entry) => translateEntry(entry, translations[entry[key] as string])) : entries;
+
+// Content with any translations for the locale applied; untranslated fields
+// fall back to the source JSON
+export const localizeContent = (locale: string): SiteContent => {
+  const cached = localized.get(locale);
+  if (cached) return cached;
+
+  const translations = overrides[locale] ?? {};
+  const translated: SiteContent = {
+    navigation: merge(content.navigation, 'href', translations.navigation),
+    services: merge(content.services, 'slug', translations.services),
+    projects: merge(content.projects, 'slug', translations.projects),
+    stats: merge(content.stats, 'id', translations.stats),
+    legal: merge(content.legal, 'slug', translations.legal),
+    team: merge(content.team, 'slug', translations.team),
+    testimonials: merge(content.testimonials, 'id', translations.testimonials),
+    clients: merge(content.clients, 'id', translations.clients),
+  };
+  // The locale's own published CMS entries replace translated source entries
+  const result = applyEntries(translated, published[locale as Locale]);
+
+  localized.set(locale, result);
+  return result;
+};
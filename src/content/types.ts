@@ -0,0 +1,152 @@
+// Typed content schema shared by every section that renders marketing copy
+
+export interface NavItem {
+  label: string;
+  href: string;
+}
+
+export interface EngagementPhase {
+  phase: string;
+  duration: string;
+  description: string;
+}
+
+export interface PricingTier {
+  name: string;
+  price: string;
+  description: string;
+  features: string[];
+}
+
+export interface Faq {
+  question: string;
+  answer: string;
+}
+
+export interface Service {
+  slug: string;
+  title: string;
+  description: string;
+  summary: string;
+  deliverables: string[];
+  timeline: EngagementPhase[];
+  tiers: PricingTier[];
+  faqs: Faq[];
+  // Slugs of related case studies in projects.json
+  projects: string[];
+}
+
+export interface Metric {
+  value: string;
+  label: string;
+}
+
+export interface GalleryImage {
+  src: string;
+  alt: string;
+}
+
+export interface Project {
+  slug: string;
+  name: string;
+  category: string;
+  // Stable id of the category, the same in every locale; filters link by it
+  categoryId: string;
+  year: string;
+  summary: string;
+  challenge: string;
+  approach: string;
+  results: string;
+  metrics: Metric[];
+  gallery: GalleryImage[];
+}
+
+// Subset of Intl.NumberFormat options a stat may use; formatting is locale-aware
+export interface StatFormat {
+  style?: 'decimal' | 'currency' | 'percent' | 'unit';
+  currency?: string;
+  // Intl unit identifier such as "hour" or "kilometer"; requires style "unit"
+  unit?: string;
+  unitDisplay?: 'short' | 'long' | 'narrow';
+  notation?: 'standard' | 'compact';
+  maximumFractionDigits?: number;
+}
+
+export interface Stat {
+  id: string;
+  value: number;
+  prefix?: string;
+  suffix?: string;
+  format?: StatFormat;
+  label: string;
+}
+
+export interface LegalSection {
+  heading: string;
+  body: string;
+}
+
+export interface LegalPage {
+  slug: string;
+  title: string;
+  // ISO date the document last changed
+  updated: string;
+  summary: string;
+  sections: LegalSection[];
+}
+
+export interface TeamMember {
+  slug: string;
+  name: string;
+  role: string;
+  // Id of an office in company.ts
+  office: string;
+  bio: string;
+  expertise: string[];
+  // Slugs of the services they lead and the case studies they worked on
+  services: string[];
+  projects: string[];
+}
+
+export interface Testimonial {
+  id: string;
+  quote: string;
+  person: string;
+  role: string;
+  company: string;
+  // Slug of the case study in projects.json
+  project: string;
+}
+
+export interface Client {
+  id: string;
+  name: string;
+  // Site path of a single-colour SVG; it is drawn as a mask in the theme's colours
+  logo: string;
+}
+
+export interface SiteContent {
+  navigation: NavItem[];
+  services: Service[];
+  projects: Project[];
+  stats: Stat[];
+  legal: LegalPage[];
+  team: TeamMember[];
+  testimonials: Testimonial[];
+  clients: Client[];
+}
+
+// A translated entry: any of its text fields, with lists translated item by
+// item in the source order
+export type Translation<T> = {
+  [K in keyof T]?: T[K] extends string
+    ? string
+    : T[K] extends string[]
+      ? string[]
+      : T[K] extends (infer Item)[]
+        ? Translation<Item>[]
+        : never;
+};
+
+// Per-locale translations of content fields, keyed by collection then entry key
+export type ContentOverrides = { [K in keyof SiteContent]?: Record<string, Translation<SiteContent[K][number]>> };
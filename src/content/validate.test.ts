@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { validateContent, validateContentOverrides } from './validate';
+import { content } from '.';
+
+// A fresh copy of the bundled content to break
+const copy = (): Record<string, unknown> => structuredClone(content) as unknown as Record<string, unknown>;
+
+const paths = (issues: { path: string }[]) => issues.map((issue) => issue.path);
+
+describe('validateContent', () => {
+  it('accepts the bundled content', () => {
+    expect(validateContent(copy())).toEqual([]);
+  });
+
+  it('reports missing collections and fields by path', () => {
+    const broken = copy();
+    delete broken.clients;
+    (broken.projects as Record<string, unknown>[])[1].name = '  ';
+    expect(paths(validateContent(broken))).toEqual(['projects[1].name', 'clients']);
+  });
+
+  it('rejects invalid slugs, duplicate keys and unknown section anchors', () => {
+    const broken = copy();
+    const projects = broken.projects as Record<string, unknown>[];
+    projects[0].slug = 'Not A Slug';
+    projects[2].slug = projects[1].slug;
+    (broken.navigation as Record<string, unknown>[])[0].href = '#nowhere';
+    const messages = validateContent(broken).map(({ path, message }) => `${path}: ${message}`);
+
+    expect(messages).toEqual(
+      expect.arrayContaining([
+        'navigation[0].href: "#nowhere" does not match any section id',
+        'projects[0].slug: "Not A Slug" is not a valid slug',
+        expect.stringMatching(/^projects\[2\]\.slug: duplicate ".+" \(first used by projects\[1\]\)$/),
+      ])
+    );
+  });
+
+  it('catches references to entries that do not exist', () => {
+    const broken = copy();
+    (broken.testimonials as Record<string, unknown>[])[0].project = 'missing-case-study';
+    (broken.services as Record<string, unknown>[])[0].projects = ['missing-case-study'];
+    expect(paths(validateContent(broken))).toEqual(['services[0].projects[0]', 'testimonials[0].project']);
+  });
+});
+
+describe('validateContentOverrides', () => {
+  const [project] = content.projects;
+
+  it('accepts translations of string fields', () => {
+    expect(validateContentOverrides(copy(), { projects: { [project.slug]: { name: 'Projet' } } }, 'fr')).toEqual([]);
+  });
+
+  it('accepts lists translated item by item, in part or in full', () => {
+    const [service] = content.services;
+    const overrides = {
+      services: {
+        [service.slug]: {
+          deliverables: service.deliverables.map((item) => `fr: ${item}`),
+          timeline: service.timeline.map((phase) => ({ phase: `fr: ${phase.phase}` })),
+          tiers: service.tiers.map((tier) => ({ name: tier.name, features: tier.features.map((feature) => `fr: ${feature}`) })),
+        },
+      },
+    };
+    expect(validateContentOverrides(copy(), overrides, 'fr')).toEqual([]);
+  });
+
+  it('rejects nested translations that do not line up with the source', () => {
+    const [service] = content.services;
+    const path = `locales/fr.services.${service.slug}`;
+    const overrides = {
+      services: {
+        [service.slug]: {
+          deliverables: ['only one'],
+          timeline: service.timeline.map(() => ({ phase: '', duration: 'x' })),
+          tiers: service.tiers.map((tier) => ({ features: tier.features.slice(1) })),
+          projects: [],
+        },
+      },
+    };
+    expect(validateContentOverrides(copy(), overrides, 'fr').map(({ path, message }) => `${path}: ${message}`)).toEqual([
+      `${path}.deliverables: expected a list of ${service.deliverables.length} translated items`,
+      ...service.timeline.map((_, i) => `${path}.timeline[${i}].phase: translation is empty`),
+      ...service.tiers.map((tier, i) => `${path}.tiers[${i}].features: expected a list of ${tier.features.length} translated items`),
+      `${path}.projects: is not a translatable field`,
+    ]);
+  });
+
+  it('rejects unknown collections and entries, untranslatable fields and empty strings', () => {
+    const overrides = {
+      widgets: {},
+      projects: { missing: { name: 'x' }, [project.slug]: { slug: 'x', summary: ' ' } },
+    };
+    expect(validateContentOverrides(copy(), overrides, 'fr').map(({ path, message }) => `${path}: ${message}`)).toEqual([
+      'locales/fr.widgets: unknown collection',
+      'locales/fr.projects.missing: does not match any entry in projects',
+      `locales/fr.projects.${project.slug}.slug: is not a translatable field`,
+      `locales/fr.projects.${project.slug}.summary: translation is empty`,
+    ]);
+  });
+});
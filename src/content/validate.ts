@@ -0,0 +1,293 @@
+// Content validation, run at build time by the Vite content plugin
+import type { SiteContent } from './types';
+import { company } from '../company';
+
+type FieldKind =
+  | 'string'
+  | 'slug'
+  | 'anchor'
+  | 'strings'
+  | 'number'
+  | 'date'
+  | { list: Record<string, FieldKind> }
+  | { oneOf: readonly string[] }
+  | { ref: keyof SiteContent }
+  | { refs: keyof SiteContent };
+
+interface CollectionSchema {
+  fields: Record<string, FieldKind>;
+  key?: string;
+}
+
+export const schema: Record<keyof SiteContent, CollectionSchema> = {
+  navigation: { fields: { label: 'string', href: 'anchor' }, key: 'href' },
+  services: {
+    fields: {
+      slug: 'slug',
+      title: 'string',
+      description: 'string',
+      summary: 'string',
+      deliverables: 'strings',
+      timeline: { list: { phase: 'string', duration: 'string', description: 'string' } },
+      tiers: { list: { name: 'string', price: 'string', description: 'string', features: 'strings' } },
+      faqs: { list: { question: 'string', answer: 'string' } },
+      projects: { refs: 'projects' },
+    },
+    key: 'slug',
+  },
+  projects: {
+    fields: {
+      slug: 'slug',
+      name: 'string',
+      category: 'string',
+      categoryId: 'slug',
+      year: 'string',
+      summary: 'string',
+      challenge: 'string',
+      approach: 'string',
+      results: 'string',
+      metrics: { list: { value: 'string', label: 'string' } },
+      gallery: { list: { src: 'string', alt: 'string' } },
+    },
+    key: 'slug',
+  },
+  stats: { fields: { id: 'slug', value: 'number', label: 'string' }, key: 'id' },
+  legal: {
+    fields: {
+      slug: 'slug',
+      title: 'string',
+      updated: 'date',
+      summary: 'string',
+      sections: { list: { heading: 'string', body: 'string' } },
+    },
+    key: 'slug',
+  },
+  team: {
+    fields: {
+      slug: 'slug',
+      name: 'string',
+      role: 'string',
+      office: { oneOf: company.offices.map((office) => office.id) },
+      bio: 'string',
+      expertise: 'strings',
+      services: { refs: 'services' },
+      projects: { refs: 'projects' },
+    },
+    key: 'slug',
+  },
+  testimonials: {
+    fields: {
+      id: 'slug',
+      quote: 'string',
+      person: 'string',
+      role: 'string',
+      company: 'string',
+      project: { ref: 'projects' },
+    },
+    key: 'id',
+  },
+  clients: { fields: { id: 'slug', name: 'string', logo: 'string' }, key: 'id' },
+};
+
+// Section ids rendered on the home page; anchor links must point at one of these
+export const sectionIds = ['services', 'work', 'about', 'insights', 'contact'] as const;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ContentIssue {
+  path: string;
+  message: string;
+}
+
+const keysOf = (content: Record<string, unknown>, collection: keyof SiteContent) => {
+  const entries = content[collection];
+  const key = schema[collection].key;
+  if (!Array.isArray(entries) || !key) return new Set<string>();
+  return new Set(entries.map((entry) => (entry as Record<string, unknown>)?.[key]).filter((value) => typeof value === 'string'));
+};
+
+const checkFields = (
+  record: Record<string, unknown>,
+  fields: Record<string, FieldKind>,
+  path: string,
+  issues: ContentIssue[],
+  content: Record<string, unknown>
+) => {
+  Object.entries(fields).forEach(([field, kind]) => {
+    const value = record[field];
+
+    if (kind === 'strings' || (typeof kind === 'object' && 'refs' in kind)) {
+      if (!Array.isArray(value) || value.length === 0 || value.some((item) => typeof item !== 'string' || item.trim() === '')) {
+        issues.push({ path: `${path}.${field}`, message: 'expected a non-empty list of strings' });
+        return;
+      }
+      if (typeof kind === 'object') {
+        const known = keysOf(content, kind.refs);
+        value.forEach((ref, index) => {
+          if (!known.has(ref)) {
+            issues.push({ path: `${path}.${field}[${index}]`, message: `"${ref}" does not match any entry in ${kind.refs}` });
+          }
+        });
+      }
+      return;
+    }
+
+    if (typeof kind === 'object' && 'ref' in kind) {
+      if (typeof value !== 'string' || value.trim() === '') {
+        issues.push({ path: `${path}.${field}`, message: 'missing required field' });
+      } else if (!keysOf(content, kind.ref).has(value)) {
+        issues.push({ path: `${path}.${field}`, message: `"${value}" does not match any entry in ${kind.ref}` });
+      }
+      return;
+    }
+
+    if (typeof kind === 'object' && 'oneOf' in kind) {
+      if (typeof value !== 'string' || !kind.oneOf.includes(value)) {
+        issues.push({ path: `${path}.${field}`, message: `expected one of ${kind.oneOf.map((option) => `"${option}"`).join(', ')}` });
+      }
+      return;
+    }
+
+    if (typeof kind === 'object') {
+      if (!Array.isArray(value) || value.length === 0) {
+        issues.push({ path: `${path}.${field}`, message: 'expected a non-empty list' });
+        return;
+      }
+      value.forEach((item, index) => {
+        if (typeof item !== 'object' || item === null) {
+          issues.push({ path: `${path}.${field}[${index}]`, message: 'expected an object' });
+          return;
+        }
+        checkFields(item as Record<string, unknown>, kind.list, `${path}.${field}[${index}]`, issues, content);
+      });
+      return;
+    }
+
+    if (kind === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path: `${path}.${field}`, message: 'expected a number' });
+      }
+      return;
+    }
+
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push({ path: `${path}.${field}`, message: 'missing required field' });
+      return;
+    }
+    if (kind === 'date' && (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+      issues.push({ path: `${path}.${field}`, message: `"${value}" is not a YYYY-MM-DD date` });
+    }
+    if (kind === 'slug' && !SLUG_PATTERN.test(value)) {
+      issues.push({ path: `${path}.${field}`, message: `"${value}" is not a valid slug` });
+    }
+    if (kind === 'anchor' && value.startsWith('#') && !(sectionIds as readonly string[]).includes(value.slice(1))) {
+      issues.push({ path: `${path}.${field}`, message: `"${value}" does not match any section id` });
+    }
+  });
+};
+
+export const validateContent = (content: Record<string, unknown>): ContentIssue[] => {
+  const issues: ContentIssue[] = [];
+
+  (Object.keys(schema) as (keyof SiteContent)[]).forEach((collection) => {
+    const { fields, key } = schema[collection];
+    const entries = content[collection];
+
+    if (!Array.isArray(entries)) {
+      issues.push({ path: collection, message: 'expected an array of entries' });
+      return;
+    }
+
+    const seen = new Map<string, number>();
+
+    entries.forEach((entry, index) => {
+      const path = `${collection}[${index}]`;
+      if (typeof entry !== 'object' || entry === null) {
+        issues.push({ path, message: 'expected an object' });
+        return;
+      }
+      const record = entry as Record<string, unknown>;
+
+      checkFields(record, fields, path, issues, content);
+
+      if (key && typeof record[key] === 'string') {
+        const slug = record[key] as string;
+        if (seen.has(slug)) {
+          issues.push({ path: `${path}.${key}`, message: `duplicate "${slug}" (first used by ${collection}[${seen.get(slug)}])` });
+        } else {
+          seen.set(slug, index);
+        }
+      }
+    });
+  });
+
+  return issues;
+};
+
+// Text fields can be translated: strings, string lists, and lists of objects
+// with text fields. Lists keep the source's length so items line up.
+const checkTranslation = (value: unknown, kind: FieldKind | undefined, source: unknown, path: string, issues: ContentIssue[]) => {
+  if (kind === 'string') {
+    if (typeof value !== 'string' || value.trim() === '') issues.push({ path, message: 'translation is empty' });
+    return;
+  }
+  if (kind !== 'strings' && !(typeof kind === 'object' && 'list' in kind)) {
+    issues.push({ path, message: 'is not a translatable field' });
+    return;
+  }
+  const length = Array.isArray(source) ? source.length : 0;
+  if (!Array.isArray(value) || value.length !== length) {
+    issues.push({ path, message: `expected a list of ${length} translated items` });
+    return;
+  }
+  value.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    if (kind === 'strings') {
+      checkTranslation(item, 'string', undefined, itemPath, issues);
+    } else if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      issues.push({ path: itemPath, message: 'expected an object' });
+    } else {
+      Object.entries(item).forEach(([field, translated]) =>
+        checkTranslation(translated, kind.list[field], (source as Record<string, unknown>[])[index]?.[field], `${itemPath}.${field}`, issues)
+      );
+    }
+  });
+};
+
+// Locale overrides may only translate text fields of entries that exist
+export const validateContentOverrides = (
+  content: Record<string, unknown>,
+  overrides: Record<string, unknown>,
+  locale: string
+): ContentIssue[] => {
+  const issues: ContentIssue[] = [];
+
+  Object.entries(overrides).forEach(([collection, entries]) => {
+    const path = `locales/${locale}.${collection}`;
+    if (!(collection in schema)) {
+      issues.push({ path, message: 'unknown collection' });
+      return;
+    }
+    const { fields, key } = schema[collection as keyof SiteContent];
+    const sources = new Map(
+      (Array.isArray(content[collection]) ? (content[collection] as Record<string, unknown>[]) : []).map((entry) => [entry?.[key!], entry])
+    );
+
+    Object.entries(entries as Record<string, Record<string, unknown>>).forEach(([entryKey, translated]) => {
+      const source = sources.get(entryKey);
+      if (!source) {
+        issues.push({ path: `${path}.${entryKey}`, message: `does not match any entry in ${collection}` });
+        return;
+      }
+      Object.entries(translated).forEach(([field, value]) =>
+        checkTranslation(value, fields[field], source[field], `${path}.${entryKey}.${field}`, issues)
+      );
+    });
+  });
+
+  return issues;
+};
+
+export const formatIssues = (issues: ContentIssue[]) =>
+  issues.map(({ path, message }) => `  • ${path}: ${message}`).join('\n');
@@ -0,0 +1,59 @@
+// Server entry used by the pre-render plugin: renders a URL to HTML plus the
+// head tags its page declared
+import { StrictMode } from 'react';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom/server';
+import App from './App';
+import { locales, localizePath, getLocaleConfig, localeFromPath } from './i18n';
+import { projects, services, legal } from './content';
+import { insights } from './insights';
+import { translate } from './i18n/catalog';
+import { HeadContext, renderHeadTags, sitemapXml, robotsTxt, rssFeed, type HeadCollector } from './seo';
+import { themeBootScript } from './theme';
+
+// Every page worth a static HTML file, without locale prefixes
+const pagePaths = () => [
+  '/',
+  '/work',
+  ...projects.map((project) => `/work/${project.slug}`),
+  '/team',
+  '/insights',
+  ...insights.map((post) => `/insights/${post.slug}`),
+  ...services.map((service) => `/services/${service.slug}`),
+  ...legal.map((page) => `/${page.slug}`),
+];
+
+export const prerenderRoutes = () => pagePaths().flatMap((path) => locales.map(({ code }) => localizePath(path, code)));
+
+// Any unmatched URL renders the not-found page
+export const NOT_FOUND_URL = '/404';
+
+export const sitemap = () => sitemapXml(pagePaths());
+
+export const robots = robotsTxt;
+
+// The feed carries the source-language articles
+export const feed = () =>
+  rssFeed(insights, { title: translate('en', 'meta.insightsTitle'), description: translate('en', 'meta.insightsDescription') });
+
+export const render = (url: string) => {
+  const collector: HeadCollector = { tags: [] };
+  const html = renderToString(
+    <StrictMode>
+      <HeadContext.Provider value={collector}>
+        <StaticRouter location={url}>
+          <App />
+        </StaticRouter>
+      </HeadContext.Provider>
+    </StrictMode>
+  );
+  const { dir } = getLocaleConfig(localeFromPath(url));
+
+  return {
+    html,
+    head: renderHeadTags(collector.tags),
+    lang: localeFromPath(url),
+    dir,
+    themeScript: themeBootScript(),
+  };
+};
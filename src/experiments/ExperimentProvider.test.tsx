@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { ConsentProvider, CONSENT_VERSION, defaultChoices, useConsent } from '../consent';
+import { ExperimentProvider, useExperiments } from './ExperimentProvider';
+import { assignVariant } from './bucketing';
+
+const VISITOR_ID = 'returning-visitor';
+
+const storeConsent = (analytics: boolean) =>
+  localStorage.setItem(
+    'nexus:consent',
+    JSON.stringify({ version: CONSENT_VERSION, choices: { ...defaultChoices, analytics }, updatedAt: '2026-01-15T12:00:00Z' })
+  );
+
+let withdraw = () => {};
+
+const Probe = () => {
+  const { bucketed } = useExperiments();
+  const { save } = useConsent();
+  withdraw = () => save(defaultChoices);
+  return <output>{bucketed.hero ?? 'none'}</output>;
+};
+
+const renderProviders = (url = '/') =>
+  render(
+    <MemoryRouter initialEntries={[url]}>
+      <ConsentProvider>
+        <ExperimentProvider>
+          <Probe />
+        </ExperimentProvider>
+      </ConsentProvider>
+    </MemoryRouter>
+  );
+
+describe('ExperimentProvider with ConsentProvider', () => {
+  it('keeps a consenting visitor’s id and variant across a fresh mount', () => {
+    storeConsent(true);
+    localStorage.setItem('nexus:visitor', VISITOR_ID);
+    renderProviders('/?utm_source=newsletter');
+
+    expect(localStorage.getItem('nexus:visitor')).toBe(VISITOR_ID);
+    expect(screen.getByRole('status')).toHaveTextContent(assignVariant('hero', VISITOR_ID));
+  });
+
+  it('deletes the id once analytics consent is withdrawn', () => {
+    storeConsent(true);
+    localStorage.setItem('nexus:visitor', VISITOR_ID);
+    renderProviders();
+
+    act(() => withdraw());
+    expect(localStorage.getItem('nexus:visitor')).toBeNull();
+    expect(screen.getByRole('status')).toHaveTextContent('none');
+  });
+
+  it('deletes a leftover id when the stored consent refuses analytics', () => {
+    storeConsent(false);
+    localStorage.setItem('nexus:visitor', VISITOR_ID);
+    renderProviders();
+
+    expect(localStorage.getItem('nexus:visitor')).toBeNull();
+    expect(screen.getByRole('status')).toHaveTextContent('none');
+  });
+});
@@ -0,0 +1,113 @@
+import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useLocation } from 'react-router-dom';
+import { isHydrating } from '../hydration';
+import { hasConsent, useConsent } from '../consent';
+import { useAnalytics } from '../analytics';
+import { experiments, type Assignments, type ExperimentId, type Variant } from './definitions';
+import {
+  assignVariant,
+  clearVisitorId,
+  parseOverrides,
+  readOptOut,
+  readOverrides,
+  readVisitorId,
+  writeOptOut,
+  writeOverrides,
+} from './bucketing';
+
+interface ExperimentSettings {
+  // Variants from bucketing; empty when the visitor is not in any experiment
+  bucketed: Assignments;
+  // Variants forced with ?exp= for QA; these are never reported as exposures
+  overrides: Assignments;
+  optedOut: boolean;
+  // Serves the control of every experiment from now on, in this browser
+  optOut: () => void;
+}
+
+const ExperimentContext = createContext<ExperimentSettings>({
+  bucketed: {},
+  overrides: {},
+  optedOut: false,
+  optOut: () => {},
+});
+
+// Only visitors who allowed analytics are bucketed, since their exposures are
+// measured. `?exp=off` opts a browser out for good (links sent to existing
+// clients use it), and `?exp=on` opts it back in.
+export const ExperimentProvider = ({ children }: { children: ReactNode }) => {
+  const { search } = useLocation();
+  const { choices, status } = useConsent();
+  // Pre-rendered pages hydrate with every control, then pick up assignments
+  const [ready, setReady] = useState(() => !isHydrating());
+  const [overrides, setOverrides] = useState<Assignments>(() => (isHydrating() ? {} : readOverrides()));
+  const [optedOut, setOptedOut] = useState(() => !isHydrating() && readOptOut());
+
+  useEffect(() => {
+    setOverrides(readOverrides());
+    setOptedOut(readOptOut());
+    setReady(true);
+  }, []);
+
+  useEffect(() => {
+    const requested = new URLSearchParams(search).get('exp');
+    if (requested === null) return;
+    if (requested === 'off' || requested === 'on') {
+      writeOptOut(requested === 'off');
+      setOptedOut(requested === 'off');
+      return;
+    }
+    // A new override list replaces the previous one; an empty `?exp=` clears it
+    const next = parseOverrides(requested);
+    writeOverrides(next);
+    setOverrides(next);
+  }, [search]);
+
+  // Only once the stored consent has been read: until then every visitor looks
+  // like one who refused analytics
+  useEffect(() => {
+    if (status !== 'unknown' && !choices.analytics) clearVisitorId();
+  }, [status, choices.analytics]);
+
+  const bucketed = useMemo<Assignments>(() => {
+    if (!ready || optedOut || !hasConsent('analytics')) return {};
+    const visitorId = readVisitorId();
+    if (!visitorId) return {};
+    return Object.fromEntries(
+      (Object.keys(experiments) as ExperimentId[])
+        .filter((id) => experiments[id].active)
+        .map((id) => [id, assignVariant(id, visitorId)])
+    );
+  }, [ready, optedOut, choices.analytics]);
+
+  const optOut = () => {
+    writeOptOut(true);
+    setOptedOut(true);
+  };
+
+  return (
+    <ExperimentContext.Provider value={{ bucketed, overrides, optedOut, optOut }}>{children}</ExperimentContext.Provider>
+  );
+};
+
+export const useExperiments = () => useContext(ExperimentContext);
+
+// Experiments already reported on this page load
+const exposed = new Set<ExperimentId>();
+
+// The visitor's variant of an experiment. The first render that shows a
+// bucketed variant logs one exposure per page load.
+export const useVariant = <Id extends ExperimentId>(id: Id): Variant<Id> => {
+  const { bucketed, overrides } = useExperiments();
+  const { track } = useAnalytics();
+  const forced = overrides[id] as Variant<Id> | undefined;
+  const assigned = bucketed[id] as Variant<Id> | undefined;
+
+  useEffect(() => {
+    if (forced || !assigned || exposed.has(id)) return;
+    exposed.add(id);
+    track('experiment_exposure', { experiment: id, variant: assigned });
+  }, [forced, assigned, id, track]);
+
+  return forced ?? assigned ?? experiments[id].variants[0];
+};
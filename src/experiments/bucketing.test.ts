@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { assignVariant, clearVisitorId, parseOverrides, readVisitorId } from './bucketing';
+
+const visitors = Array.from({ length: 20000 }, (_, i) => `visitor-${i}`);
+
+describe('assignVariant', () => {
+  it('gives a visitor the same variant every time', () => {
+    visitors.slice(0, 50).forEach((id) => expect(assignVariant('hero', id)).toBe(assignVariant('hero', id)));
+  });
+
+  it('splits visitors roughly evenly between unweighted variants', () => {
+    const b = visitors.filter((id) => assignVariant('hero', id) === 'b').length / visitors.length;
+    expect(b).toBeGreaterThan(0.48);
+    expect(b).toBeLessThan(0.52);
+  });
+
+  it('buckets each experiment independently', () => {
+    const differ = visitors.filter((id) => assignVariant('hero', id) !== assignVariant('cta', id));
+    expect(differ.length).toBeGreaterThan(visitors.length * 0.4);
+  });
+});
+
+describe('visitor id', () => {
+  it('is created once and kept until cleared', () => {
+    const id = readVisitorId();
+    expect(id).toBeTruthy();
+    expect(readVisitorId()).toBe(id);
+    expect(localStorage.getItem('nexus:visitor')).toBe(id);
+
+    clearVisitorId();
+    expect(localStorage.getItem('nexus:visitor')).toBeNull();
+    expect(readVisitorId()).not.toBe(id);
+  });
+});
+
+describe('parseOverrides', () => {
+  it('reads id:variant pairs', () => {
+    expect(parseOverrides('hero:b, cta:a')).toEqual({ hero: 'b', cta: 'a' });
+  });
+
+  it('ignores unknown experiments, unknown variants and malformed pairs', () => {
+    expect(parseOverrides('hero:z,nope:a,cta,,cta:b')).toEqual({ cta: 'b' });
+    expect(parseOverrides('')).toEqual({});
+  });
+});
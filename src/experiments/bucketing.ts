@@ -0,0 +1,93 @@
+// Deterministic bucketing: a visitor id hashed with the experiment id always
+// lands in the same variant, so assignments are sticky without being stored
+import { experiments, isExperimentId, isVariant, type Assignments, type ExperimentId, type Variant } from './definitions';
+
+const VISITOR_KEY = 'nexus:visitor';
+const OPT_OUT_KEY = 'nexus:experiments';
+const OVERRIDES_KEY = 'nexus:experiment-overrides';
+
+// FNV-1a, scaled to [0, 1)
+const hash = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) / 0x100000000;
+};
+
+export const assignVariant = <Id extends ExperimentId>(id: Id, visitorId: string): Variant<Id> => {
+  const { variants, weights } = experiments[id] as { variants: readonly Variant<Id>[]; weights?: readonly number[] };
+  const shares = weights ?? variants.map(() => 1);
+  const total = shares.reduce((sum, share) => sum + share, 0);
+  let point = hash(`${id}:${visitorId}`) * total;
+  return variants.find((_, i) => (point -= shares[i]) < 0) ?? variants[0];
+};
+
+// Random and local to this browser; it is never sent anywhere
+export const readVisitorId = () => {
+  try {
+    const stored = localStorage.getItem(VISITOR_KEY);
+    if (stored) return stored;
+    const id = crypto.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    localStorage.setItem(VISITOR_KEY, id);
+    return id;
+  } catch {
+    return null;
+  }
+};
+
+// Removed as soon as analytics consent is withdrawn, as the privacy policy promises
+export const clearVisitorId = () => {
+  try {
+    localStorage.removeItem(VISITOR_KEY);
+  } catch {
+    // Nothing stored to clear
+  }
+};
+
+export const readOptOut = () => {
+  try {
+    return localStorage.getItem(OPT_OUT_KEY) === 'off';
+  } catch {
+    return false;
+  }
+};
+
+export const writeOptOut = (optedOut: boolean) => {
+  try {
+    if (optedOut) localStorage.setItem(OPT_OUT_KEY, 'off');
+    else localStorage.removeItem(OPT_OUT_KEY);
+  } catch {
+    // Without storage the choice lasts for the page
+  }
+};
+
+// `?exp=hero:b,cta:a` forces variants for QA; unknown ids and variants are ignored
+export const parseOverrides = (value: string): Assignments =>
+  Object.fromEntries(
+    value
+      .split(',')
+      .map((pair) => pair.trim().split(':'))
+      .filter(([id, variant]) => isExperimentId(id) && isVariant(id, variant ?? ''))
+  );
+
+export const readOverrides = (): Assignments => {
+  try {
+    return parseOverrides(sessionStorage.getItem(OVERRIDES_KEY) ?? '');
+  } catch {
+    return {};
+  }
+};
+
+export const writeOverrides = (overrides: Assignments) => {
+  try {
+    const value = Object.entries(overrides)
+      .map(([id, variant]) => `${id}:${variant}`)
+      .join(',');
+    if (value) sessionStorage.setItem(OVERRIDES_KEY, value);
+    else sessionStorage.removeItem(OVERRIDES_KEY);
+  } catch {
+    // Overrides then apply to this page only
+  }
+};
@@ -0,0 +1,26 @@
+// Experiment catalog. The first variant of each is the control, served to
+// everyone who is not bucketed: without analytics consent, opted out, or
+// while an experiment is inactive.
+
+export interface ExperimentDefinition {
+  variants: readonly [string, ...string[]];
+  // Share of bucketed visitors per variant, in variant order; an equal split when omitted
+  weights?: readonly number[];
+  active: boolean;
+}
+
+export const experiments = {
+  // Hero headline: "Crafting Tomorrow's Intelligence" against an outcome-led line
+  hero: { variants: ['a', 'b'], active: true },
+  // Hero primary button and consultation submit copy
+  cta: { variants: ['a', 'b'], active: true },
+} as const satisfies Record<string, ExperimentDefinition>;
+
+export type ExperimentId = keyof typeof experiments;
+export type Variant<Id extends ExperimentId> = (typeof experiments)[Id]['variants'][number];
+export type Assignments = { [Id in ExperimentId]?: Variant<Id> };
+
+export const isExperimentId = (value: string): value is ExperimentId => value in experiments;
+
+export const isVariant = <Id extends ExperimentId>(id: Id, value: string): value is Variant<Id> =>
+  (experiments[id].variants as readonly string[]).includes(value);
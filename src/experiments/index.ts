@@ -0,0 +1,3 @@
+export { ExperimentProvider, useExperiments, useVariant } from './ExperimentProvider';
+export { assignVariant, parseOverrides } from './bucketing';
+export * from './definitions';
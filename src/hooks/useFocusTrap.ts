@@ -0,0 +1,70 @@
+import { useEffect, type RefObject } from 'react';
+
+const FOCUSABLE = [
+  'a[href]',
+  'area[href]',
+  'button:not([disabled])',
+  'input:not([disabled]):not([type="hidden"])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  'iframe',
+  '[tabindex]:not([tabindex="-1"])',
+  '[contenteditable="true"]',
+].join(',');
+
+export const getFocusable = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (element) => !element.closest('[aria-hidden="true"], [inert]') && element.getClientRects().length > 0
+  );
+
+// Keeps Tab and Shift+Tab cycling inside `container` while active, calls
+// onEscape on Escape, and hands focus back to the opener when released
+export const useFocusTrap = (
+  container: RefObject<HTMLElement | null>,
+  active: boolean,
+  { onEscape, initialFocus }: { onEscape?: () => void; initialFocus?: RefObject<HTMLElement | null> } = {}
+) => {
+  useEffect(() => {
+    const root = container.current;
+    if (!active || !root) return;
+
+    const opener = document.activeElement as HTMLElement | null;
+    const focusFirst = () => (initialFocus?.current ?? getFocusable(root)[0] ?? root).focus({ preventScroll: true });
+    // Wait a frame so entering content has mounted
+    const frame = requestAnimationFrame(focusFirst);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && onEscape) {
+        e.preventDefault();
+        onEscape();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+
+      const focusable = getFocusable(root);
+      if (focusable.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const current = document.activeElement;
+
+      if (e.shiftKey && (current === first || !root.contains(current))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (current === last || !root.contains(current))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener('keydown', handleKeyDown);
+      if (opener && document.contains(opener)) opener.focus({ preventScroll: true });
+    };
+    // onEscape is read at call time; re-running on its identity would steal focus back
+  }, [active, container]);
+};
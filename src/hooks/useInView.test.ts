@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useInView, pooledObserverCount, type InViewOptions } from './useInView';
+import {
+  MockIntersectionObserver,
+  installIntersectionObserver,
+  uninstallIntersectionObserver,
+  intersect,
+  observersOf,
+} from '../test/intersectionObserver';
+
+// Renders the hook and attaches it to a fresh element
+const observeElement = (options?: number | InViewOptions) => {
+  const element = document.createElement('div');
+  const hook = renderHook(() => useInView(options));
+  act(() => hook.result.current[0](element));
+  return { element, hook };
+};
+
+describe('useInView', () => {
+  beforeEach(installIntersectionObserver);
+  afterEach(uninstallIntersectionObserver);
+
+  it('starts out of view and reports entering with the visible ratio', () => {
+    const { element, hook } = observeElement();
+    expect(hook.result.current[1]).toBe(false);
+
+    intersect(element, true, 0.4);
+    expect(hook.result.current[1]).toBe(true);
+    expect(hook.result.current[2]).toBe(0.4);
+  });
+
+  it('stops observing after the first reveal by default', () => {
+    const { element, hook } = observeElement();
+    intersect(element, true);
+
+    expect(observersOf(element)).toHaveLength(0);
+    expect(pooledObserverCount()).toBe(0);
+    intersect(element, false);
+    expect(hook.result.current[1]).toBe(true);
+  });
+
+  it('tracks leaving the viewport when `once` is off', () => {
+    const { element, hook } = observeElement({ once: false });
+    intersect(element, true);
+    intersect(element, false);
+
+    expect(hook.result.current[1]).toBe(false);
+    expect(hook.result.current[2]).toBe(0);
+    expect(observersOf(element)).toHaveLength(1);
+  });
+
+  it('passes threshold and root margin to the observer', () => {
+    observeElement({ threshold: [0, 0.5], rootMargin: '0px 0px -20% 0px' });
+    const [observer] = MockIntersectionObserver.instances;
+
+    expect(observer.thresholds).toEqual([0, 0.5]);
+    expect(observer.rootMargin).toBe('0px 0px -20% 0px');
+  });
+
+  it('shares one observer between elements with the same options', () => {
+    const first = observeElement(0.2);
+    const second = observeElement(0.2);
+    observeElement(0.6);
+
+    expect(MockIntersectionObserver.instances).toHaveLength(2);
+    expect(pooledObserverCount()).toBe(2);
+
+    // Only the element that entered is reported
+    intersect(first.element, true);
+    expect(first.hook.result.current[1]).toBe(true);
+    expect(second.hook.result.current[1]).toBe(false);
+  });
+
+  it('disconnects the shared observer once its last element unmounts', () => {
+    const first = observeElement({ once: false });
+    const second = observeElement({ once: false });
+    const [observer] = MockIntersectionObserver.instances;
+
+    first.hook.unmount();
+    expect(observer.disconnected).toBe(false);
+    second.hook.unmount();
+    expect(observer.disconnected).toBe(true);
+    expect(pooledObserverCount()).toBe(0);
+  });
+
+  it('does not resubscribe when given an equal threshold array', () => {
+    const element = document.createElement('div');
+    const hook = renderHook(() => useInView({ threshold: [0, 1] }));
+    act(() => hook.result.current[0](element));
+    hook.rerender();
+
+    expect(MockIntersectionObserver.instances).toHaveLength(1);
+    expect(observersOf(element)).toHaveLength(1);
+  });
+});
+
+describe('useInView without IntersectionObserver', () => {
+  it('reports the fallback so content is not left hidden', () => {
+    const { hook } = observeElement();
+    expect(hook.result.current[1]).toBe(true);
+    expect(hook.result.current[2]).toBe(1);
+  });
+
+  it('can fall back to out of view', () => {
+    const { hook } = observeElement({ fallbackInView: false });
+    expect(hook.result.current[1]).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { useState, useEffect } from 'react';
+
+export interface InViewOptions {
+  // Visibility ratio(s) at which the element counts as entering or leaving
+  threshold?: number | number[];
+  rootMargin?: string;
+  // Stop tracking after the first reveal (the default); false tracks enter and exit
+  once?: boolean;
+  // Reported where IntersectionObserver is missing (SSR, old browsers) so content is not left hidden
+  fallbackInView?: boolean;
+}
+
+type Listener = (entry: IntersectionObserverEntry) => void;
+
+interface PooledObserver {
+  observer: IntersectionObserver;
+  listeners: Map<Element, Set<Listener>>;
+}
+
+// One IntersectionObserver per threshold/rootMargin pair, shared by every
+// element observed with those options
+const pool = new Map<string, PooledObserver>();
+
+const poolKey = (threshold: number | number[], rootMargin: string) =>
+  `${rootMargin}|${([] as number[]).concat(threshold).join(',')}`;
+
+const observe = (element: Element, threshold: number | number[], rootMargin: string, listener: Listener) => {
+  const key = poolKey(threshold, rootMargin);
+  let pooled = pool.get(key);
+
+  if (!pooled) {
+    const listeners = new Map<Element, Set<Listener>>();
+    const observer = new IntersectionObserver(
+      (entries) => entries.forEach((entry) => listeners.get(entry.target)?.forEach((notify) => notify(entry))),
+      { threshold, rootMargin }
+    );
+    pooled = { observer, listeners };
+    pool.set(key, pooled);
+  }
+
+  const { observer, listeners } = pooled;
+  const forElement = listeners.get(element) ?? new Set<Listener>();
+  if (!listeners.has(element)) {
+    listeners.set(element, forElement);
+    observer.observe(element);
+  }
+  forElement.add(listener);
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    forElement.delete(listener);
+    if (forElement.size > 0) return;
+    listeners.delete(element);
+    observer.unobserve(element);
+    if (listeners.size === 0) {
+      observer.disconnect();
+      pool.delete(key);
+    }
+  };
+};
+
+export const observerSupported = () => typeof window !== 'undefined' && 'IntersectionObserver' in window;
+
+// Number of live observers, for diagnostics
+export const pooledObserverCount = () => pool.size;
+
+// Custom hook for intersection observer
+export const useInView = (options: number | InViewOptions = {}) => {
+  const {
+    threshold = 0.1,
+    rootMargin = '0px',
+    once = true,
+    fallbackInView = true,
+  } = typeof options === 'number' ? { threshold: options } : options;
+
+  const [ref, setRef] = useState<Element | null>(null);
+  const [inView, setInView] = useState(false);
+  const [ratio, setRatio] = useState(0);
+  const thresholdKey = ([] as number[]).concat(threshold).join(',');
+
+  useEffect(() => {
+    if (!ref) return;
+    if (!observerSupported()) {
+      setInView(fallbackInView);
+      setRatio(fallbackInView ? 1 : 0);
+      return;
+    }
+
+    const stop = observe(ref, threshold, rootMargin, (entry) => {
+      setRatio(entry.intersectionRatio);
+      if (entry.isIntersecting) {
+        setInView(true);
+        if (once) stop();
+      } else if (!once) {
+        setInView(false);
+      }
+    });
+    return () => stop();
+    // thresholdKey stands in for threshold so a new array literal each render does not resubscribe
+  }, [ref, thresholdKey, rootMargin, once, fallbackInView]);
+
+  return [setRef, inView, ratio] as const;
+};
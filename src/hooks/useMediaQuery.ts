@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { isHydrating } from '../hydration';
+
+// Tracks a CSS media query; false when matchMedia is unavailable, and on the
+// first render of pre-rendered pages so hydration matches the server
+export const useMediaQuery = (query: string) => {
+  const [matches, setMatches] = useState(
+    () => typeof window !== 'undefined' && !isHydrating() && !!window.matchMedia?.(query).matches
+  );
+
+  useEffect(() => {
+    if (!window.matchMedia) return;
+    const list = window.matchMedia(query);
+    const handleChange = () => setMatches(list.matches);
+    handleChange();
+    list.addEventListener('change', handleChange);
+    return () => list.removeEventListener('change', handleChange);
+  }, [query]);
+
+  return matches;
+};
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+
+// False while the tab is hidden or the window is minimised
+export const usePageVisible = () => {
+  const [visible, setVisible] = useState(() => typeof document === 'undefined' || document.visibilityState !== 'hidden');
+
+  useEffect(() => {
+    const handleChange = () => setVisible(document.visibilityState !== 'hidden');
+    document.addEventListener('visibilitychange', handleChange);
+    return () => document.removeEventListener('visibilitychange', handleChange);
+  }, []);
+
+  return visible;
+};
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+
+// Reference-counted so nested overlays (menu, modals) can lock independently
+let locks = 0;
+let previous: { overflow: string; paddingRight: string } | null = null;
+
+const lock = () => {
+  if (locks++ > 0) return;
+  const { body, documentElement } = document;
+  const scrollbar = window.innerWidth - documentElement.clientWidth;
+  previous = { overflow: body.style.overflow, paddingRight: body.style.paddingRight };
+  body.style.overflow = 'hidden';
+  // Keep the layout from shifting when the scrollbar disappears
+  if (scrollbar > 0) body.style.paddingRight = `${scrollbar}px`;
+};
+
+const unlock = () => {
+  if (--locks > 0 || !previous) return;
+  document.body.style.overflow = previous.overflow;
+  document.body.style.paddingRight = previous.paddingRight;
+  previous = null;
+};
+
+export const useScrollLock = (active: boolean) => {
+  useEffect(() => {
+    if (!active) return;
+    lock();
+    return unlock;
+  }, [active]);
+};
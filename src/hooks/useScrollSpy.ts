@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { getHeaderOffset } from '../scroll';
+
+// Id of the section currently under the header, or null above the first one.
+// A section becomes active once its top passes a line a third of the way down
+// the visible area beneath the header.
+export const useScrollSpy = (ids: readonly string[], enabled = true) => {
+  const [active, setActive] = useState<string | null>(null);
+  const key = ids.join(',');
+
+  useEffect(() => {
+    if (!enabled) {
+      setActive(null);
+      return;
+    }
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const offset = getHeaderOffset();
+      const line = offset + (window.innerHeight - offset) / 3;
+      let current: string | null = null;
+
+      for (const id of ids) {
+        const element = document.getElementById(id);
+        if (element && element.getBoundingClientRect().top <= line) current = id;
+      }
+      // The last section may never reach the line; treat the page bottom as reaching it
+      if (window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2 && ids.length) {
+        current = ids[ids.length - 1];
+      }
+      setActive(current);
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+    // key stands in for ids so a new array with the same members does not resubscribe
+  }, [key, enabled]);
+
+  return active;
+};
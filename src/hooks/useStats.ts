@@ -0,0 +1,53 @@
+import { useState, useEffect } from 'react';
+import { useContent } from '../i18n';
+import type { Stat } from '../content';
+
+// Live figures override the bundled stats.json values by id, so the site
+// stays current without a deploy. Labels always come from the content layer.
+type RemoteStat = Pick<Stat, 'id' | 'value'> & Partial<Pick<Stat, 'prefix' | 'suffix'>>;
+
+const endpoint = import.meta.env.VITE_STATS_ENDPOINT;
+
+const parseRemoteStats = (body: unknown): RemoteStat[] => {
+  const list = Array.isArray(body) ? body : (body as { stats?: unknown })?.stats;
+  if (!Array.isArray(list)) return [];
+  return list.filter(
+    (item): item is RemoteStat =>
+      typeof item?.id === 'string' &&
+      typeof item.value === 'number' &&
+      Number.isFinite(item.value) &&
+      (item.prefix === undefined || typeof item.prefix === 'string') &&
+      (item.suffix === undefined || typeof item.suffix === 'string')
+  );
+};
+
+let cached: RemoteStat[] | null = null;
+let request: Promise<RemoteStat[]> | null = null;
+
+// One request per page load, shared by every consumer; failures fall back to bundled values
+const loadRemoteStats = (url: string) =>
+  (request ??= fetch(url, { headers: { Accept: 'application/json' } })
+    .then((response) => (response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`))))
+    .then(parseRemoteStats)
+    .catch(() => [])
+    .then((stats) => (cached = stats)));
+
+export const useStats = (): Stat[] => {
+  const { stats } = useContent();
+  const [remote, setRemote] = useState<RemoteStat[] | null>(cached);
+
+  useEffect(() => {
+    if (!endpoint || cached) return;
+    let active = true;
+    loadRemoteStats(endpoint).then((result) => active && setRemote(result));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  if (!remote?.length) return stats;
+  return stats.map((stat) => {
+    const live = remote.find((item) => item.id === stat.id);
+    return live ? { ...stat, ...live } : stat;
+  });
+};
@@ -0,0 +1,14 @@
+// While the pre-rendered HTML is being hydrated, state that depends on the
+// browser (storage, media queries) must start from the values the server
+// rendered with; components read the real values in an effect afterwards.
+let hydrating = false;
+
+export const beginHydration = () => {
+  hydrating = true;
+};
+
+export const endHydration = () => {
+  hydrating = false;
+};
+
+export const isHydrating = () => hydrating;
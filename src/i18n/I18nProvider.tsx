@@ -0,0 +1,68 @@
+import { createContext, forwardRef, useContext, useEffect, useMemo, type ReactNode } from 'react';
+import { Link, type LinkProps, type To } from 'react-router-dom';
+import { localizeContent, type SiteContent, type Stat } from '../content';
+import { applyEntries, usePreview, type CmsEntries } from '../cms';
+import { defaultLocale, getLocaleConfig, localizePath, type Locale, type LocaleConfig } from './config';
+import { interpolate, translate, type MessageKey, type MessageValues } from './catalog';
+
+interface I18nContextValue {
+  locale: Locale;
+  config: LocaleConfig;
+  content: SiteContent;
+  t: (key: MessageKey, values?: MessageValues) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  // Formats a stat, optionally at an intermediate value while it counts up
+  formatStat: (stat: Stat, value?: number) => string;
+  localePath: (pathname: string) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+// Draft entries, in preview mode, take the place of published copy and content
+const createValue = (locale: Locale, drafts?: CmsEntries): I18nContextValue => {
+  const config = getLocaleConfig(locale);
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) =>
+    new Intl.NumberFormat(config.intl, options).format(value);
+
+  return {
+    locale,
+    config,
+    content: applyEntries(localizeContent(locale), drafts),
+    t: (key, values) => {
+      const draft = drafts?.messages?.[key];
+      return draft === undefined ? translate(locale, key, values) : interpolate(draft, values);
+    },
+    formatNumber,
+    formatStat: (stat, value = stat.value) => `${stat.prefix ?? ''}${formatNumber(value, stat.format)}${stat.suffix ?? ''}`,
+    localePath: (pathname) => localizePath(pathname, locale),
+  };
+};
+
+export const I18nProvider = ({ locale, children }: { locale: Locale; children: ReactNode }) => {
+  const drafts = usePreview().drafts[locale];
+  const value = useMemo(() => createValue(locale, drafts), [locale, drafts]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = value.config.dir;
+  }, [locale, value.config.dir]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+const fallback = createValue(defaultLocale);
+
+export const useI18n = () => useContext(I18nContext) ?? fallback;
+
+export const useContent = () => useI18n().content;
+
+// Router link that keeps the visitor inside their current locale
+export const LocaleLink = forwardRef<HTMLAnchorElement, LinkProps>(({ to, ...props }, ref) => {
+  const { localePath } = useI18n();
+  const localized: To =
+    typeof to === 'string'
+      ? to.startsWith('/') ? localePath(to) : to
+      : to.pathname?.startsWith('/') ? { ...to, pathname: localePath(to.pathname) } : to;
+
+  return <Link ref={ref} to={localized} {...props} />;
+});
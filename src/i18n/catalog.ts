@@ -0,0 +1,35 @@
+// Message catalogs and lookup
+import en from './messages/en.json';
+import fr from './messages/fr.json';
+import ar from './messages/ar.json';
+import published from 'virtual:nexus-cms';
+import { flatten } from './flatten';
+import type { Locale } from './config';
+
+export { flatten };
+
+type Catalog = typeof en;
+
+type Paths<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${Paths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = Paths<Catalog>;
+export type MessageValues = Record<string, string | number>;
+
+export const catalogs: Record<Locale, unknown> = { en, fr, ar };
+
+// Copy published from the CMS replaces the bundled message for its key
+const flattened = Object.fromEntries(
+  Object.entries(catalogs).map(([locale, messages]) => [
+    locale,
+    { ...flatten(messages), ...published[locale as Locale]?.messages },
+  ])
+) as Record<Locale, Record<string, string>>;
+
+export const interpolate = (message: string, values?: MessageValues) =>
+  values ? message.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match)) : message;
+
+// Missing translations fall back to English so a gap never renders a raw key
+export const translate = (locale: Locale, key: MessageKey, values?: MessageValues) =>
+  interpolate(flattened[locale][key] ?? flattened.en[key] ?? key, values);
@@ -0,0 +1,40 @@
+// Catalog consistency checks, run at build time by the Vite i18n plugin
+import { flatten } from './flatten';
+
+export interface CatalogIssue {
+  locale: string;
+  key: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export const placeholders = (message: string) => [...message.matchAll(/\{(\w+)\}/g)].map(([, name]) => name).sort().join(',');
+
+export const checkCatalogs = (catalogs: Record<string, unknown>, base: string): CatalogIssue[] => {
+  const issues: CatalogIssue[] = [];
+  const reference = flatten(catalogs[base]);
+
+  Object.entries(catalogs).forEach(([locale, messages]) => {
+    if (locale === base) return;
+    const translated = flatten(messages);
+
+    Object.entries(reference).forEach(([key, message]) => {
+      if (!(key in translated)) {
+        issues.push({ locale, key, message: 'missing translation', severity: 'error' });
+      } else if (translated[key].trim() === '') {
+        issues.push({ locale, key, message: 'empty translation', severity: 'error' });
+      } else if (placeholders(translated[key]) !== placeholders(message)) {
+        issues.push({ locale, key, message: `placeholders differ from ${base}`, severity: 'error' });
+      }
+    });
+
+    Object.keys(translated)
+      .filter((key) => !(key in reference))
+      .forEach((key) => issues.push({ locale, key, message: `not present in ${base}`, severity: 'warning' }));
+  });
+
+  return issues;
+};
+
+export const formatCatalogIssues = (issues: CatalogIssue[]) =>
+  issues.map(({ locale, key, message }) => `  • ${locale}: ${key} — ${message}`).join('\n');
@@ -0,0 +1,33 @@
+// Supported locales and locale-prefixed URL helpers
+
+export const locales = [
+  { code: 'en', label: 'English', short: 'EN', intl: 'en-US', dir: 'ltr' },
+  { code: 'fr', label: 'Français', short: 'FR', intl: 'fr-FR', dir: 'ltr' },
+  { code: 'ar', label: 'العربية', short: 'ع', intl: 'ar', dir: 'rtl' },
+] as const;
+
+export type Locale = (typeof locales)[number]['code'];
+export type LocaleConfig = (typeof locales)[number];
+
+// The default locale is served unprefixed; every other locale lives under /<code>
+export const defaultLocale: Locale = 'en';
+
+export const isLocale = (value: string | undefined): value is Locale => locales.some((locale) => locale.code === value);
+
+export const getLocaleConfig = (locale: Locale): LocaleConfig => locales.find((config) => config.code === locale)!;
+
+export const localeFromPath = (pathname: string): Locale => {
+  const segment = pathname.split('/')[1];
+  return isLocale(segment) ? segment : defaultLocale;
+};
+
+export const stripLocale = (pathname: string) => {
+  const segment = pathname.split('/')[1];
+  if (!isLocale(segment) || segment === defaultLocale) return pathname;
+  return pathname.slice(segment.length + 1) || '/';
+};
+
+export const localizePath = (pathname: string, locale: Locale) => {
+  if (locale === defaultLocale) return pathname;
+  return pathname === '/' ? `/${locale}` : `/${locale}${pathname}`;
+};
@@ -0,0 +1,9 @@
+// Nested message objects to dotted keys. Kept apart from the catalog so
+// build-time checks can use it without loading the catalogs themselves.
+export const flatten = (messages: unknown, prefix = ''): Record<string, string> =>
+  Object.entries(messages as Record<string, unknown>).reduce<Record<string, string>>((flat, [key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'string') flat[path] = value;
+    else Object.assign(flat, flatten(value, path));
+    return flat;
+  }, {});
@@ -0,0 +1,3 @@
+export * from './config';
+export { translate, type MessageKey, type MessageValues } from './catalog';
+export { I18nProvider, useI18n, useContent, LocaleLink } from './I18nProvider';
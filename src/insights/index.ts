@@ -0,0 +1,38 @@
+// Insight articles, compiled from Markdown at build time by plugins/insights.ts
+import { defaultLocale } from '../i18n/config';
+import type { Insight } from './types';
+
+export * from './types';
+
+const compiled = Object.values(
+  import.meta.glob<Insight>('../content/insights/*.md', { eager: true, import: 'default' })
+);
+
+const byDateDesc = (a: Insight, b: Insight) => b.date.localeCompare(a.date) || a.slug.localeCompare(b.slug);
+
+// Source articles, newest first
+export const insights: Insight[] = compiled.filter((post) => !post.locale).sort(byDateDesc);
+
+const localized = new Map<string, Insight[]>();
+
+// Articles with any translation for the locale swapped in; others stay in the source language
+export const localizeInsights = (locale: string): Insight[] => {
+  if (locale === defaultLocale) return insights;
+  const cached = localized.get(locale);
+  if (cached) return cached;
+
+  const result = insights.map((post) => compiled.find((entry) => entry.slug === post.slug && entry.locale === locale) ?? post);
+  localized.set(locale, result);
+  return result;
+};
+
+export const INSIGHTS_PER_PAGE = 6;
+
+export const insightTags = (posts: Insight[]) => [...new Set(posts.flatMap((post) => post.tags))].sort();
+
+// Pages are 1-based; out-of-range requests clamp to the nearest page
+export const paginate = <T>(items: T[], page: number, perPage = INSIGHTS_PER_PAGE) => {
+  const pages = Math.max(1, Math.ceil(items.length / perPage));
+  const current = Math.min(Math.max(1, Math.floor(page) || 1), pages);
+  return { items: items.slice((current - 1) * perPage, current * perPage), page: current, pages };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { compileInsight, fileInfo, parseFrontmatter, readingMinutes } from './markdown';
+
+const article = (frontmatter: string, body = 'Opening paragraph.\n\n## First section\n\nText.') => `---\n${frontmatter}\n---\n${body}`;
+
+const valid = [
+  'title: "Shipping models: a field guide"',
+  'author: Ada Lovelace',
+  'date: 2026-01-15',
+  'cover: /insights/cover.svg',
+  "tags: [mlops, 'delivery']",
+].join('\n');
+
+describe('parseFrontmatter', () => {
+  it('reads quoted strings and lists, skipping comments', () => {
+    const { data, body } = parseFrontmatter(article(`${valid}\n# draft note`, 'Body'));
+    expect(data).toEqual({
+      title: 'Shipping models: a field guide',
+      author: 'Ada Lovelace',
+      date: '2026-01-15',
+      cover: '/insights/cover.svg',
+      tags: ['mlops', 'delivery'],
+    });
+    expect(body).toBe('Body');
+  });
+
+  it('leaves a file without frontmatter as body', () => {
+    expect(parseFrontmatter('# Title')).toEqual({ data: {}, body: '# Title' });
+  });
+});
+
+describe('fileInfo', () => {
+  it('takes the slug and translation locale from the file name', () => {
+    expect(fileInfo('src/content/insights/model-ops.md')).toEqual({ slug: 'model-ops', locale: undefined });
+    expect(fileInfo('src/content/insights/model-ops.fr.md')).toEqual({ slug: 'model-ops', locale: 'fr' });
+  });
+});
+
+describe('compileInsight', () => {
+  it('renders Markdown with heading anchors and a table of contents', () => {
+    const insight = compileInsight(
+      article(valid, 'Opening *paragraph* text.\n\n## Why it matters\n\n### Costs & risks\n\n## Why it matters\n\n#### Aside'),
+      'model-ops.md'
+    );
+    expect(insight.slug).toBe('model-ops');
+    expect(insight.summary).toBe('Opening paragraph text.');
+    expect(insight.html).toContain('<p>Opening <em>paragraph</em> text.</p>');
+    expect(insight.html).toContain('<h3 id="costs-risks">Costs &amp; risks</h3>');
+    expect(insight.headings).toEqual([
+      { id: 'why-it-matters', text: 'Why it matters', depth: 2 },
+      { id: 'costs-risks', text: 'Costs & risks', depth: 3 },
+      { id: 'why-it-matters-1', text: 'Why it matters', depth: 2 },
+    ]);
+    expect(insight.readingTime).toBe(1);
+  });
+
+  it('prefers a summary given in the frontmatter', () => {
+    expect(compileInsight(article(`${valid}\nsummary: Short version`), 'model-ops.fr.md')).toMatchObject({
+      locale: 'fr',
+      summary: 'Short version',
+    });
+  });
+
+  it('names the file and the problem when frontmatter is invalid', () => {
+    expect(() => compileInsight(article(valid.replace('author: Ada Lovelace\n', '')), 'a.md')).toThrow(
+      'a.md: missing required frontmatter "author"'
+    );
+    expect(() => compileInsight(article(valid.replace('2026-01-15', '15/01/2026')), 'a.md')).toThrow('is not a YYYY-MM-DD date');
+    expect(() => compileInsight(article(valid.replace('/insights/', 'insights/')), 'a.md')).toThrow('cover must be a site path');
+    expect(() => compileInsight(article(valid.replace("tags: [mlops, 'delivery']", 'tags: mlops')), 'a.md')).toThrow('"tags"');
+    expect(() => compileInsight(article(valid), 'Bad Slug.md')).toThrow('is not a valid slug');
+  });
+});
+
+describe('readingMinutes', () => {
+  it('rounds at 220 words a minute, never below one', () => {
+    expect(readingMinutes('word')).toBe(1);
+    expect(readingMinutes('word '.repeat(660))).toBe(3);
+    // Code blocks and link targets are not read
+    expect(readingMinutes(`[label](${'x'.repeat(50)})\n\`\`\`\n${'code '.repeat(1000)}\n\`\`\``)).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+// Build-time compilation of insight articles: frontmatter, Markdown to HTML,
+// heading anchors and reading time. Runs in Node from the Vite plugin.
+import { Marked } from 'marked';
+import type { Insight, InsightHeading } from './types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const WORDS_PER_MINUTE = 220;
+
+// Frontmatter is a YAML subset: `key: value` lines, quoted strings and [a, b] lists
+const unquote = (value: string) => value.trim().replace(/^(['"])(.*)\1$/, '$2');
+
+export const parseFrontmatter = (source: string) => {
+  const match = source.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { data: {} as Record<string, string | string[]>, body: source };
+
+  const data: Record<string, string | string[]> = {};
+  match[1].split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf(':');
+    if (!line.trim() || line.trim().startsWith('#') || separator < 0) return;
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    data[key] = /^\[.*\]$/.test(value)
+      ? value
+          .slice(1, -1)
+          .split(',')
+          .map(unquote)
+          .filter(Boolean)
+      : unquote(value);
+  });
+  return { data, body: source.slice(match[0].length) };
+};
+
+const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-');
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+
+const stripTags = (html: string) => html.replace(/<[^>]+>/g, '').replace(/&(amp|lt|gt|quot|#39);/g, (entity) => ENTITIES[entity]);
+
+const plainText = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`~-]/g, ' ');
+
+export const readingMinutes = (markdown: string) =>
+  Math.max(1, Math.round(plainText(markdown).split(/\s+/).filter(Boolean).length / WORDS_PER_MINUTE));
+
+// `<slug>.md` is the source article; `<slug>.<locale>.md` translates it
+export const fileInfo = (file: string) => {
+  const [slug, locale] = file.replace(/^.*[\\/]/, '').replace(/\.md$/, '').split('.');
+  return { slug, locale };
+};
+
+export const compileInsight = (source: string, file: string): Insight => {
+  const { slug, locale } = fileInfo(file);
+  const { data, body } = parseFrontmatter(source);
+  const fail = (message: string): never => {
+    throw new Error(`${file}: ${message}`);
+  };
+
+  if (!SLUG_PATTERN.test(slug)) fail(`"${slug}" is not a valid slug`);
+  const text = (key: string) => {
+    const value = data[key];
+    if (typeof value !== 'string' || !value) fail(`missing required frontmatter "${key}"`);
+    return value as string;
+  };
+  const title = text('title');
+  const author = text('author');
+  const date = text('date');
+  const cover = text('cover');
+  if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) fail(`"${date}" is not a YYYY-MM-DD date`);
+  if (!cover.startsWith('/')) fail('cover must be a site path such as /insights/cover.svg');
+  const tags = data.tags;
+  if (!Array.isArray(tags) || tags.length === 0) fail('frontmatter "tags" must be a non-empty [list]');
+
+  // Second-level and third-level headings get anchors and make up the table of contents
+  const headings: InsightHeading[] = [];
+  const used = new Map<string, number>();
+  const marked = new Marked({
+    gfm: true,
+    renderer: {
+      heading({ tokens, depth }) {
+        const html = this.parser.parseInline(tokens);
+        const text = stripTags(html);
+        const base = slugify(text) || 'section';
+        const count = used.get(base) ?? 0;
+        used.set(base, count + 1);
+        const id = count ? `${base}-${count}` : base;
+        if (depth === 2 || depth === 3) headings.push({ id, text, depth });
+        return `<h${depth} id="${id}">${html}</h${depth}>\n`;
+      },
+    },
+  });
+  const html = marked.parse(body, { async: false }) as string;
+
+  const firstParagraph = plainText(body.split(/\r?\n\r?\n/).find((block) => /^\s*[^#\s!>`-]/.test(block)) ?? '');
+
+  return {
+    slug,
+    ...(locale && { locale }),
+    title,
+    author,
+    date,
+    tags: tags as string[],
+    cover,
+    summary: typeof data.summary === 'string' && data.summary ? data.summary : firstParagraph.replace(/\s+/g, ' ').trim(),
+    html,
+    headings,
+    readingTime: readingMinutes(body),
+  };
+};
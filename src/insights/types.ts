@@ -0,0 +1,25 @@
+// Insight articles as compiled from the Markdown files in src/content/insights
+
+export interface InsightHeading {
+  id: string;
+  text: string;
+  depth: number;
+}
+
+export interface Insight {
+  slug: string;
+  // Language of a translation; source articles are written in the default locale
+  locale?: string;
+  title: string;
+  author: string;
+  // ISO date of publication
+  date: string;
+  tags: string[];
+  // Site path of the cover image
+  cover: string;
+  summary: string;
+  html: string;
+  headings: InsightHeading[];
+  // Minutes, rounded, at least one
+  readingTime: number;
+}
@@ -1,9 +1,29 @@
 import { StrictMode } from 'react'
-import { createRoot } from 'react-dom/client'
+import { createRoot, hydrateRoot } from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
 import App from './App'
+import { beginHydration } from './hydration'
+import { registerServiceWorker } from './pwa'
+import './index.css'
 
-createRoot(document.getElementById('root')!).render(
+const container = document.getElementById('root')!
+const app = (
   <StrictMode>
-    <App />
-  </StrictMode>,
+    <BrowserRouter>
+      <App />
+    </BrowserRouter>
+  </StrictMode>
 )
+
+// Hydrate only markup pre-rendered for this exact URL; filtered views and
+// SPA fallbacks render from scratch
+const pathname = window.location.pathname.replace(/(.)\/$/, '$1')
+if (container.dataset.prerendered === pathname && !window.location.search) {
+  beginHydration()
+  hydrateRoot(container, app)
+} else {
+  container.replaceChildren()
+  createRoot(container).render(app)
+}
+
+if (import.meta.env.PROD) registerServiceWorker()
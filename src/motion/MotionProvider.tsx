@@ -0,0 +1,96 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { MotionConfig, type Target } from 'framer-motion';
+import { useMediaQuery } from '../hooks/useMediaQuery';
+import { usePageVisible } from '../hooks/usePageVisible';
+import { useInView } from '../hooks/useInView';
+import { isHydrating } from '../hydration';
+
+export type MotionPreference = 'system' | 'full' | 'reduced';
+
+interface MotionSettings {
+  preference: MotionPreference;
+  setPreference: (preference: MotionPreference) => void;
+  // Resolved from the preference and the OS setting
+  reduced: boolean;
+  // Whether looping, decorative animations may run at all
+  loops: boolean;
+}
+
+const STORAGE_KEY = 'nexus:motion';
+
+const readPreference = (): MotionPreference => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored === 'full' || stored === 'reduced' ? stored : 'system';
+  } catch {
+    return 'system';
+  }
+};
+
+// Data-saver connections get no decorative loops, whatever the motion setting
+const prefersDataSaving = () =>
+  typeof navigator !== 'undefined' && !!(navigator as Navigator & { connection?: { saveData?: boolean } }).connection?.saveData;
+
+const MotionContext = createContext<MotionSettings>({
+  preference: 'system',
+  setPreference: () => {},
+  reduced: false,
+  loops: true,
+});
+
+export const MotionProvider = ({ children }: { children: ReactNode }) => {
+  const [preference, setPreferenceState] = useState<MotionPreference>(() => (isHydrating() ? 'system' : readPreference()));
+  const systemReduced = useMediaQuery('(prefers-reduced-motion: reduce)');
+  const reduced = preference === 'system' ? systemReduced : preference === 'reduced';
+
+  // Pre-rendered pages hydrate with the server's default, then pick up the stored choice
+  useEffect(() => setPreferenceState(readPreference()), []);
+
+  const setPreference = (next: MotionPreference) => {
+    setPreferenceState(next);
+    try {
+      if (next === 'system') localStorage.removeItem(STORAGE_KEY);
+      else localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Storage can be unavailable in private modes; the choice lasts for the session
+    }
+  };
+
+  useEffect(() => {
+    document.documentElement.dataset.motion = reduced ? 'reduced' : 'full';
+  }, [reduced]);
+
+  return (
+    <MotionContext.Provider value={{ preference, setPreference, reduced, loops: !reduced && !prefersDataSaving() }}>
+      {/* In reduced mode framer-motion skips transform and layout animations, leaving opacity fades */}
+      <MotionConfig reducedMotion={reduced ? 'always' : 'never'}>{children}</MotionConfig>
+    </MotionContext.Provider>
+  );
+};
+
+export const useMotionSettings = () => useContext(MotionContext);
+
+// Drops movement from a target so a reveal degrades to a plain fade
+const fadeOnly = ({ opacity }: Target): Target => (opacity === undefined ? {} : { opacity });
+
+// Entrance animation props that respect the motion setting. `fallback`
+// chooses what reduced motion gets: a fade, or the final state with no animation.
+export const useReveal = (hidden: Target, shown: Target, { fallback = 'fade' }: { fallback?: 'fade' | 'static' } = {}) => {
+  const { reduced } = useMotionSettings();
+
+  if (!reduced) return { hidden, shown, initial: hidden as Target | false };
+  if (fallback === 'static') return { hidden: shown, shown, initial: false as const };
+  const hiddenFade = 'opacity' in hidden ? fadeOnly(hidden) : { opacity: 0 };
+  const shownFade = 'opacity' in shown ? fadeOnly(shown) : { opacity: 1 };
+  return { hidden: hiddenFade, shown: shownFade, initial: hiddenFade as Target | false };
+};
+
+// Whether an infinite animation should be running: never under reduced motion
+// or data saving, and paused while the tab is hidden or the element is offscreen
+export const useLoopActive = () => {
+  const { loops } = useMotionSettings();
+  const pageVisible = usePageVisible();
+  const [ref, onScreen] = useInView({ threshold: 0, once: false });
+
+  return [ref, loops && pageVisible && onScreen] as const;
+};
@@ -0,0 +1 @@
+export { MotionProvider, useMotionSettings, useReveal, useLoopActive, type MotionPreference } from './MotionProvider';
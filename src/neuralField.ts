@@ -0,0 +1,262 @@
+// Generative "neural network" particle field for the hero background, drawn
+// with WebGL: drifting nodes that pulse, link to their neighbours, part
+// around the pointer and drift upwards as the page scrolls
+
+export type Rgb = [number, number, number];
+
+export interface FieldColors {
+  node: Rgb;
+  link: Rgb;
+}
+
+export interface NeuralFieldRenderer {
+  // CSS pixel size of the canvas and the device pixel ratio to draw at
+  resize: (width: number, height: number, pixelRatio: number) => void;
+  // Pointer position in canvas CSS pixels, or null once it leaves
+  setPointer: (point: { x: number; y: number } | null) => void;
+  // 0 with the hero fully in view, 1 once it has scrolled away
+  setScroll: (progress: number) => void;
+  setColors: (colors: FieldColors) => void;
+  frame: (time: number) => void;
+  destroy: () => void;
+}
+
+// Field tuning; distances are CSS pixels, speeds pixels per second
+const AREA_PER_NODE = 14000;
+const MIN_NODES = 40;
+const MAX_NODES = 150;
+const DRIFT_SPEED = 14;
+const LINK_DISTANCE = 140;
+const POINTER_RADIUS = 180;
+const POINTER_PUSH = 36;
+const NODE_SIZE = 3;
+const PARALLAX = 0.3;
+
+// '#c9a962' -> [0.79, 0.66, 0.38]
+export const hexToRgb = (hex: string): Rgb => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute float a_alpha;
+uniform vec2 u_resolution;
+uniform float u_pointSize;
+varying float v_alpha;
+void main() {
+  vec2 clip = a_position / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  gl_PointSize = u_pointSize;
+  v_alpha = a_alpha;
+}`;
+
+// Points are drawn as soft discs; colours are premultiplied for blending
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform vec3 u_color;
+uniform float u_round;
+varying float v_alpha;
+void main() {
+  float alpha = v_alpha;
+  if (u_round > 0.5) alpha *= 1.0 - smoothstep(0.25, 0.5, length(gl_PointCoord - 0.5));
+  gl_FragColor = vec4(u_color * alpha, alpha);
+}`;
+
+interface Node {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  // Displacement away from the pointer, eased towards its target
+  ox: number;
+  oy: number;
+  phase: number;
+}
+
+const compile = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  return gl.getShaderParameter(shader, gl.COMPILE_STATUS) ? shader : null;
+};
+
+const createProgram = (gl: WebGLRenderingContext) => {
+  const vertex = compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  return gl.getProgramParameter(program, gl.LINK_STATUS) ? program : null;
+};
+
+const randomNode = (width: number, height: number): Node => {
+  const angle = Math.random() * Math.PI * 2;
+  const speed = DRIFT_SPEED * (0.4 + Math.random() * 0.6);
+  return {
+    x: Math.random() * width,
+    y: Math.random() * height,
+    vx: Math.cos(angle) * speed,
+    vy: Math.sin(angle) * speed,
+    ox: 0,
+    oy: 0,
+    phase: Math.random() * Math.PI * 2,
+  };
+};
+
+// Whether this browser can create a WebGL context at all
+export const webglAvailable = () => typeof window !== 'undefined' && 'WebGLRenderingContext' in window;
+
+// Null when WebGL is unavailable or the shaders fail to build
+export const createNeuralField = (canvas: HTMLCanvasElement): NeuralFieldRenderer | null => {
+  if (!webglAvailable()) return null;
+  const gl = canvas.getContext('webgl', { alpha: true, antialias: true, premultipliedAlpha: true });
+  if (!gl) return null;
+  const program = createProgram(gl);
+  if (!program) return null;
+
+  const buffer = gl.createBuffer();
+  const position = gl.getAttribLocation(program, 'a_position');
+  const alpha = gl.getAttribLocation(program, 'a_alpha');
+  const uniforms = {
+    resolution: gl.getUniformLocation(program, 'u_resolution'),
+    pointSize: gl.getUniformLocation(program, 'u_pointSize'),
+    color: gl.getUniformLocation(program, 'u_color'),
+    round: gl.getUniformLocation(program, 'u_round'),
+  };
+
+  gl.useProgram(program);
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  // Interleaved x, y, alpha
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 12, 0);
+  gl.enableVertexAttribArray(alpha);
+  gl.vertexAttribPointer(alpha, 1, gl.FLOAT, false, 12, 8);
+  gl.enable(gl.BLEND);
+  gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+  let width = 0;
+  let height = 0;
+  let pixelRatio = 1;
+  let nodes: Node[] = [];
+  let vertices = new Float32Array(0);
+  let pointer: { x: number; y: number } | null = null;
+  let scroll = 0;
+  let colors: FieldColors = { node: [1, 1, 1], link: [1, 1, 1] };
+  let last = 0;
+
+  const resize = (nextWidth: number, nextHeight: number, nextRatio: number) => {
+    width = nextWidth;
+    height = nextHeight;
+    pixelRatio = nextRatio;
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round(height * pixelRatio);
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    // Laid out at zero size (a hidden ancestor); the next resize seeds the field
+    if (!width || !height) return;
+
+    // Keep existing nodes where possible so resizing does not reshuffle the field
+    const count = Math.min(MAX_NODES, Math.max(MIN_NODES, Math.round((width * height) / AREA_PER_NODE)));
+    nodes = nodes.slice(0, count).map((node) => ({ ...node, x: node.x % width, y: node.y % height }));
+    while (nodes.length < count) nodes.push(randomNode(width, height));
+    // Room for every possible link as a line segment
+    vertices = new Float32Array(count * (count - 1) * 3);
+  };
+
+  const step = (dt: number) => {
+    const ease = Math.min(1, dt * 6);
+    for (const node of nodes) {
+      node.x += node.vx * dt;
+      node.y += node.vy * dt;
+      // Wrap around just outside the edges so nodes never pop in view
+      if (node.x < -LINK_DISTANCE) node.x += width + LINK_DISTANCE * 2;
+      else if (node.x > width + LINK_DISTANCE) node.x -= width + LINK_DISTANCE * 2;
+      if (node.y < -LINK_DISTANCE) node.y += height + LINK_DISTANCE * 2;
+      else if (node.y > height + LINK_DISTANCE) node.y -= height + LINK_DISTANCE * 2;
+
+      let tx = 0;
+      let ty = 0;
+      if (pointer) {
+        const dx = node.x - pointer.x;
+        const dy = node.y - pointer.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance > 0 && distance < POINTER_RADIUS) {
+          const push = (1 - distance / POINTER_RADIUS) * POINTER_PUSH;
+          tx = (dx / distance) * push;
+          ty = (dy / distance) * push;
+        }
+      }
+      node.ox += (tx - node.ox) * ease;
+      node.oy += (ty - node.oy) * ease;
+    }
+  };
+
+  const draw = (count: number, mode: number, color: Rgb, round: boolean) => {
+    if (count === 0) return;
+    gl.bufferData(gl.ARRAY_BUFFER, vertices.subarray(0, count * 3), gl.DYNAMIC_DRAW);
+    gl.uniform3fv(uniforms.color, color);
+    gl.uniform1f(uniforms.round, round ? 1 : 0);
+    gl.drawArrays(mode, 0, count);
+  };
+
+  const frame = (time: number) => {
+    const dt = last ? Math.min(0.1, (time - last) / 1000) : 0;
+    last = time;
+    step(dt);
+
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.uniform2f(uniforms.resolution, width, height);
+    gl.uniform1f(uniforms.pointSize, NODE_SIZE * pixelRatio);
+
+    const fade = 1 - scroll * 0.7;
+    const shift = scroll * height * PARALLAX;
+    const xs = nodes.map((node) => node.x + node.ox);
+    const ys = nodes.map((node) => node.y + node.oy - shift);
+
+    // Links, brighter around the pointer
+    let count = 0;
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const distance = Math.hypot(xs[i] - xs[j], ys[i] - ys[j]);
+        if (distance >= LINK_DISTANCE) continue;
+        let strength = (1 - distance / LINK_DISTANCE) * 0.18 * fade;
+        if (pointer) {
+          const near = Math.hypot((xs[i] + xs[j]) / 2 - pointer.x, (ys[i] + ys[j]) / 2 - pointer.y);
+          if (near < POINTER_RADIUS) strength *= 1 + (1 - near / POINTER_RADIUS) * 1.5;
+        }
+        vertices.set([xs[i], ys[i], strength, xs[j], ys[j], strength], count * 3);
+        count += 2;
+      }
+    }
+    draw(count, gl.LINES, colors.link, false);
+
+    // Nodes, each pulsing at its own phase like a firing neuron
+    nodes.forEach((node, i) => {
+      const pulse = 0.45 + 0.35 * Math.sin(time / 1000 + node.phase);
+      vertices.set([xs[i], ys[i], pulse * fade], i * 3);
+    });
+    draw(nodes.length, gl.POINTS, colors.node, true);
+  };
+
+  return {
+    resize,
+    setPointer: (next) => {
+      pointer = next;
+    },
+    setScroll: (progress) => {
+      scroll = Math.min(1, Math.max(0, progress));
+    },
+    setColors: (next) => {
+      colors = next;
+    },
+    frame,
+    destroy: () => {
+      gl.deleteBuffer(buffer);
+      gl.deleteProgram(program);
+    },
+  };
+};
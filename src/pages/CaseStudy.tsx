@@ -0,0 +1,150 @@
+import { motion } from 'framer-motion';
+import { useParams } from 'react-router-dom';
+import { useInView } from '../hooks/useInView';
+import { TextReveal } from '../components/TextReveal';
+import { LocaleLink, useI18n, useContent } from '../i18n';
+import { Seo } from '../seo';
+import { useAnalytics } from '../analytics';
+import { NotFound } from './NotFound';
+
+const Narrative = ({ label, index, children }: { label: string; index: number; children: string }) => {
+  const [ref, inView] = useInView();
+
+  return (
+    <motion.div
+      ref={ref}
+      initial={{ opacity: 0, y: 40 }}
+      animate={inView ? { opacity: 1, y: 0 } : { opacity: 0, y: 40 }}
+      transition={{ duration: 0.8, ease: [0.22, 1, 0.36, 1] }}
+      className="grid grid-cols-1 md:grid-cols-[200px_1fr] gap-4 md:gap-12 py-12 border-t border-line"
+    >
+      <span className="font-outfit text-xs tracking-[0.3em] text-accent uppercase">
+        0{index + 1} · {label}
+      </span>
+      <p className="font-outfit text-soft text-base md:text-lg leading-relaxed max-w-3xl">{children}</p>
+    </motion.div>
+  );
+};
+
+export const CaseStudy = () => {
+  const { t } = useI18n();
+  const { track } = useAnalytics();
+  const { projects } = useContent();
+  const { slug } = useParams();
+  const index = projects.findIndex((project) => project.slug === slug);
+
+  if (index === -1) return <NotFound />;
+
+  const project = projects[index];
+  const previous = projects[(index - 1 + projects.length) % projects.length];
+  const next = projects[(index + 1) % projects.length];
+
+  return (
+    <article className="pt-40 pb-24 md:pb-32">
+      <Seo title={project.name} description={project.summary} type="article" />
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <LocaleLink
+          to="/work"
+          className="inline-flex items-center gap-2 font-outfit text-sm text-muted hover:text-accent tracking-wider transition-colors duration-300 mb-12"
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rotate-180 rtl:rotate-0">
+            <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+          {t('caseStudy.back')}
+        </LocaleLink>
+
+        <header className="mb-16 md:mb-24">
+          <div className="flex items-center gap-4 mb-6">
+            <motion.span
+              layoutId={`project-category-${project.slug}`}
+              className="font-outfit text-xs md:text-sm tracking-[0.3em] text-accent uppercase"
+            >
+              {project.category}
+            </motion.span>
+            <span className="w-8 h-[1px] bg-line" />
+            <span className="font-outfit text-sm text-muted">{project.year}</span>
+          </div>
+          <motion.h1
+            layoutId={`project-name-${project.slug}`}
+            className="font-cormorant text-5xl md:text-7xl lg:text-8xl text-ink leading-[0.95] mb-8"
+          >
+            {project.name}
+          </motion.h1>
+          <motion.p
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8, delay: 0.3 }}
+            className="font-outfit text-muted text-base md:text-xl max-w-2xl leading-relaxed"
+          >
+            {project.summary}
+          </motion.p>
+        </header>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-[1px] bg-line border border-line mb-16 md:mb-24">
+          {project.metrics.map((metric, i) => (
+            <motion.div
+              key={metric.label}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.8, delay: 0.4 + i * 0.1, ease: [0.22, 1, 0.36, 1] }}
+              className="bg-canvas p-8"
+            >
+              <div className="font-cormorant text-4xl md:text-5xl text-accent mb-2">{metric.value}</div>
+              <div className="font-outfit text-xs md:text-sm text-muted tracking-[0.2em] uppercase">{metric.label}</div>
+            </motion.div>
+          ))}
+        </div>
+
+        <div className="mb-16 md:mb-24">
+          <Narrative label={t('caseStudy.challenge')} index={0}>{project.challenge}</Narrative>
+          <Narrative label={t('caseStudy.approach')} index={1}>{project.approach}</Narrative>
+          <Narrative label={t('caseStudy.results')} index={2}>{project.results}</Narrative>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-16 md:mb-24">
+          {project.gallery.map((image) => (
+            <figure key={image.src} className="border border-line">
+              <img src={image.src} alt={image.alt} loading="lazy" className="w-full aspect-[8/5] object-cover" />
+              <figcaption className="font-outfit text-xs text-muted tracking-wider px-4 py-3 border-t border-line">
+                {image.alt}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+
+        <nav aria-label={t('caseStudy.more')} className="grid grid-cols-2 gap-[1px] bg-line border-y border-line">
+          <LocaleLink to={`/work/${previous.slug}`} className="group bg-canvas py-8 pe-4">
+            <span className="font-outfit text-xs text-muted tracking-[0.3em] uppercase block mb-2">{t('caseStudy.previous')}</span>
+            <span className="font-cormorant text-2xl md:text-4xl text-ink group-hover:text-accent transition-colors duration-300">
+              {previous.name}
+            </span>
+          </LocaleLink>
+          <LocaleLink to={`/work/${next.slug}`} className="group bg-canvas py-8 ps-4 text-end">
+            <span className="font-outfit text-xs text-muted tracking-[0.3em] uppercase block mb-2">{t('caseStudy.next')}</span>
+            <span className="font-cormorant text-2xl md:text-4xl text-ink group-hover:text-accent transition-colors duration-300">
+              {next.name}
+            </span>
+          </LocaleLink>
+        </nav>
+
+        <div className="text-center mt-24">
+          <h2 className="font-cormorant text-4xl md:text-5xl text-ink leading-tight mb-8">
+            <TextReveal>{t('caseStudy.ctaLine1')}</TextReveal>
+            <br />
+            <span className="italic text-accent"><TextReveal delay={0.2}>{t('caseStudy.ctaLine2')}</TextReveal></span>
+          </h2>
+          <LocaleLink
+            to={{ pathname: '/', hash: '#contact' }}
+            onClick={() => track('cta_click', { cta: 'case-study-contact', detail: project.slug })}
+            className="inline-flex items-center justify-center gap-3 bg-accent text-on-accent font-outfit text-sm tracking-wider px-8 py-4 hover:bg-ink hover:text-canvas transition-colors duration-300"
+          >
+            {t('contact.submit')}
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
+              <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+            </svg>
+          </LocaleLink>
+        </div>
+      </div>
+    </article>
+  );
+};
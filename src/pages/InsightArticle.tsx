@@ -0,0 +1,145 @@
+import type { MouseEvent } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate, useParams } from 'react-router-dom';
+import { TextReveal } from '../components/TextReveal';
+import { InsightCard, useInsightDate } from '../components/InsightCard';
+import { LocaleLink, useI18n, defaultLocale, getLocaleConfig, isLocale } from '../i18n';
+import { useScrollSpy } from '../hooks/useScrollSpy';
+import { useMotionSettings } from '../motion';
+import { localizeInsights } from '../insights';
+import { scrollToSection } from '../scroll';
+import { Seo } from '../seo';
+import { NotFound } from './NotFound';
+
+export const InsightArticle = () => {
+  const { t, locale, localePath } = useI18n();
+  const { reduced } = useMotionSettings();
+  const navigate = useNavigate();
+  const { slug } = useParams();
+  const formatDate = useInsightDate();
+  const posts = localizeInsights(locale);
+  const post = posts.find((entry) => entry.slug === slug);
+  const active = useScrollSpy(post?.headings.map((heading) => heading.id) ?? [], !!post);
+
+  if (!post) return <NotFound />;
+
+  // Untranslated articles keep their own language and direction inside a translated page
+  const language = post.locale && isLocale(post.locale) ? post.locale : defaultLocale;
+  const languageAttrs = language === locale ? {} : { lang: language, dir: getLocaleConfig(language).dir };
+
+  // Up to two other articles, preferring ones that share a tag
+  const related = posts
+    .filter((entry) => entry.slug !== post.slug)
+    .sort((a, b) => Number(b.tags.some((tag) => post.tags.includes(tag))) - Number(a.tags.some((tag) => post.tags.includes(tag))))
+    .slice(0, 2);
+
+  // Links inside the Markdown body are plain anchors; keep internal ones in the router and locale
+  const handleBodyClick = (e: MouseEvent<HTMLDivElement>) => {
+    const link = (e.target as HTMLElement).closest('a');
+    const href = link?.getAttribute('href');
+    if (!href || e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    if (href.startsWith('#')) {
+      e.preventDefault();
+      scrollToSection(href.slice(1), { smooth: !reduced });
+    } else if (href.startsWith('/') && !href.startsWith('//')) {
+      e.preventDefault();
+      navigate(localePath(href));
+    }
+  };
+
+  const jumpTo = (e: MouseEvent<HTMLAnchorElement>, id: string) => {
+    e.preventDefault();
+    scrollToSection(id, { smooth: !reduced });
+  };
+
+  return (
+    <article className="pt-40 pb-24 md:pb-32">
+      <Seo title={post.title} description={post.summary} image={post.cover} type="article" />
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <LocaleLink
+          to="/insights"
+          className="inline-flex items-center gap-2 font-outfit text-sm text-muted hover:text-accent tracking-wider transition-colors duration-300 mb-12"
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rotate-180 rtl:rotate-0">
+            <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+          {t('insights.back')}
+        </LocaleLink>
+
+        <header className="max-w-4xl mb-12 md:mb-16">
+          <span className="font-outfit text-xs tracking-[0.3em] text-accent uppercase block mb-6">{post.tags.join(' · ')}</span>
+          <h1 {...languageAttrs} className="font-cormorant text-4xl md:text-6xl text-ink leading-[1.05] mb-8">
+            <TextReveal>{post.title}</TextReveal>
+          </h1>
+          <motion.p
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8, delay: 0.3 }}
+            className="font-outfit text-muted text-sm tracking-wider"
+          >
+            {t('insights.byline', { author: post.author })} · <time dateTime={post.date}>{formatDate(post.date)}</time> ·{' '}
+            {t('insights.readingTime', { minutes: post.readingTime })}
+          </motion.p>
+        </header>
+
+        <motion.img
+          src={post.cover}
+          alt=""
+          width={1200}
+          height={630}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.8, delay: 0.2 }}
+          className="w-full aspect-[1200/630] object-cover border border-line mb-16 md:mb-24"
+        />
+
+        <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-12 lg:gap-20">
+          {post.headings.length > 0 && (
+            <nav aria-labelledby="insight-toc" className="lg:sticky lg:top-32 self-start">
+              <h2 id="insight-toc" className="font-outfit text-xs text-muted tracking-[0.2em] uppercase mb-4">
+                {t('insights.contents')}
+              </h2>
+              <ol className="space-y-3 border-s border-line">
+                {post.headings.map((heading) => (
+                  <li key={heading.id} className={heading.depth === 3 ? 'ps-8' : 'ps-4'}>
+                    <a
+                      href={`#${heading.id}`}
+                      onClick={(e) => jumpTo(e, heading.id)}
+                      aria-current={active === heading.id ? 'location' : undefined}
+                      className={`font-outfit text-sm leading-snug transition-colors duration-300 ${
+                        active === heading.id ? 'text-accent' : 'text-muted hover:text-ink'
+                      }`}
+                    >
+                      {heading.text}
+                    </a>
+                  </li>
+                ))}
+              </ol>
+            </nav>
+          )}
+          <div
+            {...languageAttrs}
+            className="insight-body max-w-3xl lg:col-start-2"
+            onClick={handleBodyClick}
+            dangerouslySetInnerHTML={{ __html: post.html }}
+          />
+        </div>
+
+        {related.length > 0 && (
+          <section aria-labelledby="insight-related" className="mt-24 md:mt-32 pt-16 border-t border-line">
+            <h2 id="insight-related" className="font-cormorant text-3xl md:text-4xl text-ink mb-12">
+              {t('insights.related')}
+            </h2>
+            <ul className="grid grid-cols-1 md:grid-cols-2 gap-[1px] bg-line border border-line">
+              {related.map((entry) => (
+                <li key={entry.slug}>
+                  <InsightCard post={entry} />
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </article>
+  );
+};
@@ -0,0 +1,110 @@
+import { motion } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
+import { TextReveal } from '../components/TextReveal';
+import { FilterChip } from '../components/FilterChip';
+import { InsightCard } from '../components/InsightCard';
+import { LocaleLink, useI18n } from '../i18n';
+import { insightTags, localizeInsights, paginate } from '../insights';
+import { Seo } from '../seo';
+
+const pageLink = 'text-accent hover:text-ink transition-colors duration-300';
+
+export const InsightsIndex = () => {
+  const { t, locale } = useI18n();
+  const [params, setParams] = useSearchParams();
+  const tag = params.get('tag');
+  const posts = localizeInsights(locale);
+
+  // Changing the tag starts again from the first page
+  const setTag = (value: string | null) => {
+    const next = new URLSearchParams(params);
+    if (value) next.set('tag', value);
+    else next.delete('tag');
+    next.delete('page');
+    setParams(next, { replace: true, state: { preserveScroll: true } });
+  };
+
+  // Pages are plain links so crawlers can follow them
+  const pageSearch = (target: number) => {
+    const next = new URLSearchParams(params);
+    if (target > 1) next.set('page', String(target));
+    else next.delete('page');
+    const search = next.toString();
+    return search ? `?${search}` : '';
+  };
+
+  const filtered = posts.filter((post) => !tag || post.tags.includes(tag));
+  const { items, page, pages } = paginate(filtered, Number(params.get('page') ?? 1));
+
+  return (
+    <section className="pt-40 pb-24 md:pb-32 min-h-screen">
+      <Seo title={t('meta.insightsTitle')} description={t('meta.insightsDescription')} />
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <div className="mb-16 md:mb-20">
+          <motion.span
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.5 }}
+            className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4"
+          >
+            {t('insights.eyebrow')}
+          </motion.span>
+          <h1 className="font-cormorant text-5xl md:text-6xl lg:text-7xl text-ink leading-tight">
+            <TextReveal>{t('insights.titleLine1')}</TextReveal>
+            <br />
+            <span className="italic text-accent"><TextReveal delay={0.2}>{t('insights.titleLine2')}</TextReveal></span>
+          </h1>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-12" role="group" aria-label={t('insights.filters')}>
+          <span className="font-outfit text-xs text-muted tracking-[0.2em] uppercase w-24">{t('insights.topic')}</span>
+          <FilterChip label={t('workIndex.all')} active={!tag} onClick={() => setTag(null)} />
+          {insightTags(posts).map((value) => (
+            <FilterChip key={value} label={value} active={tag === value} onClick={() => setTag(value)} />
+          ))}
+        </div>
+
+        {items.length > 0 ? (
+          <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-[1px] bg-line border border-line">
+            {items.map((post) => (
+              <li key={post.slug}>
+                <InsightCard post={post} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="border border-line p-12 text-center">
+            <p className="font-outfit text-muted mb-4">{t('insights.empty')}</p>
+            <LocaleLink
+              to="/insights"
+              replace
+              className="font-outfit text-sm text-accent hover:text-ink tracking-wider transition-colors duration-300"
+            >
+              {t('workIndex.clear')}
+            </LocaleLink>
+          </div>
+        )}
+
+        {pages > 1 && (
+          <nav aria-label={t('insights.pagination')} className="flex items-center justify-between mt-12 font-outfit text-sm tracking-wider">
+            {page > 1 ? (
+              <LocaleLink to={{ pathname: '/insights', search: pageSearch(page - 1) }} className={pageLink}>
+                {t('insights.newer')}
+              </LocaleLink>
+            ) : (
+              <span />
+            )}
+            <span className="text-muted">{t('insights.page', { page, pages })}</span>
+            {page < pages ? (
+              <LocaleLink to={{ pathname: '/insights', search: pageSearch(page + 1) }} className={pageLink}>
+                {t('insights.older')}
+              </LocaleLink>
+            ) : (
+              <span />
+            )}
+          </nav>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,70 @@
+import { motion } from 'framer-motion';
+import { TextReveal } from '../components/TextReveal';
+import { LocaleLink, useI18n, useContent } from '../i18n';
+import { Seo } from '../seo';
+import { useConsent } from '../consent';
+import { NotFound } from './NotFound';
+
+// Privacy policy and terms, rendered from legal.json
+export const LegalPage = ({ slug }: { slug: string }) => {
+  const { t, config } = useI18n();
+  const { legal } = useContent();
+  const { openPreferences } = useConsent();
+  const page = legal.find((entry) => entry.slug === slug);
+
+  if (!page) return <NotFound />;
+
+  // Dates are stored as UTC calendar days; formatting in UTC keeps the day stable
+  const updated = new Intl.DateTimeFormat(config.intl, { dateStyle: 'long', timeZone: 'UTC' }).format(new Date(page.updated));
+
+  return (
+    <article className="pt-40 pb-24 md:pb-32">
+      <Seo title={page.title} description={page.summary} />
+      <div className="max-w-3xl mx-auto px-6 md:px-12">
+        <header className="mb-16 md:mb-20">
+          <span className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-6">
+            {t('legal.updated', { date: updated })}
+          </span>
+          <h1 className="font-cormorant text-5xl md:text-7xl text-ink leading-[0.95] mb-8">
+            <TextReveal>{page.title}</TextReveal>
+          </h1>
+          <motion.p
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8, delay: 0.3 }}
+            className="font-outfit text-muted text-base md:text-xl leading-relaxed"
+          >
+            {page.summary}
+          </motion.p>
+        </header>
+
+        <div className="border-t border-line">
+          {page.sections.map((section) => (
+            <section key={section.heading} className="py-10 border-b border-line">
+              <h2 className="font-cormorant text-2xl md:text-3xl text-ink mb-4">{section.heading}</h2>
+              <p className="font-outfit text-soft leading-relaxed">{section.body}</p>
+            </section>
+          ))}
+        </div>
+
+        <div className="mt-16 flex flex-col sm:flex-row gap-6 sm:items-center justify-between">
+          {slug === 'privacy' && (
+            <button
+              type="button"
+              onClick={openPreferences}
+              className="inline-flex items-center gap-3 font-outfit text-sm text-accent tracking-wider hover:text-ink transition-colors duration-300"
+            >
+              {t('consent.manage')}
+            </button>
+          )}
+          <LocaleLink
+            to={slug === 'privacy' ? '/terms' : '/privacy'}
+            className="font-outfit text-sm text-muted hover:text-accent tracking-wider transition-colors duration-300"
+          >
+            {t(slug === 'privacy' ? 'footer.terms' : 'footer.privacy')}
+          </LocaleLink>
+        </div>
+      </div>
+    </article>
+  );
+};
@@ -0,0 +1,30 @@
+import { TextReveal } from '../components/TextReveal';
+import { LocaleLink, useI18n } from '../i18n';
+import { Seo } from '../seo';
+
+export const NotFound = () => {
+  const { t } = useI18n();
+
+  return (
+    <section className="min-h-screen flex items-center justify-center pt-20">
+      <Seo title={t('meta.notFoundTitle')} description={t('meta.notFoundDescription')} noindex />
+      <div className="max-w-7xl mx-auto px-6 md:px-12 text-center">
+        <span className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4">404</span>
+        <h1 className="font-cormorant text-5xl md:text-7xl text-ink leading-tight mb-8">
+          <TextReveal>{t('notFound.titleLine1')}</TextReveal>
+          <br />
+          <span className="italic text-accent"><TextReveal delay={0.2}>{t('notFound.titleLine2')}</TextReveal></span>
+        </h1>
+        <LocaleLink
+          to="/"
+          className="inline-flex items-center gap-3 font-outfit text-sm text-accent tracking-wider hover:text-ink transition-colors duration-300"
+        >
+          {t('notFound.cta')}
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
+            <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+        </LocaleLink>
+      </div>
+    </section>
+  );
+};
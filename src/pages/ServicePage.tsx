@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useParams } from 'react-router-dom';
+import type { Faq } from '../content';
+import { useInView } from '../hooks/useInView';
+import { TextReveal } from '../components/TextReveal';
+import { ProjectRow } from '../components/ProjectRow';
+import { LocaleLink, useI18n, useContent } from '../i18n';
+import { Seo } from '../seo';
+import { useAnalytics } from '../analytics';
+import { NotFound } from './NotFound';
+
+const SectionHeading = ({ eyebrow, children }: { eyebrow: string; children: string }) => (
+  <div className="mb-10 md:mb-12">
+    <span className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4">{eyebrow}</span>
+    <h2 className="font-cormorant text-3xl md:text-5xl text-ink leading-tight">
+      <TextReveal>{children}</TextReveal>
+    </h2>
+  </div>
+);
+
+const FaqItem = ({ faq, id }: { faq: Faq; id: string }) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="border-b border-line">
+      <h3>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          aria-controls={id}
+          className="w-full flex items-center justify-between gap-6 py-6 text-start font-cormorant text-xl md:text-2xl text-ink hover:text-accent transition-colors duration-300"
+        >
+          {faq.question}
+          <motion.span
+            animate={{ rotate: open ? 45 : 0 }}
+            transition={{ duration: 0.3 }}
+            className="text-accent font-outfit text-2xl leading-none"
+            aria-hidden="true"
+          >
+            +
+          </motion.span>
+        </button>
+      </h3>
+      <AnimatePresence initial={false}>
+        {open && (
+          <motion.div
+            id={id}
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+            className="overflow-hidden"
+          >
+            <p className="font-outfit text-muted leading-relaxed pb-6 max-w-3xl">{faq.answer}</p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export const ServicePage = () => {
+  const { t } = useI18n();
+  const { track } = useAnalytics();
+  const { services, projects } = useContent();
+  const { slug } = useParams();
+  const [ref, inView] = useInView();
+  const index = services.findIndex((service) => service.slug === slug);
+
+  if (index === -1) return <NotFound />;
+
+  const service = services[index];
+  const related = projects.filter((project) => service.projects.includes(project.slug));
+  const others = services.filter((other) => other.slug !== service.slug);
+
+  return (
+    <article className="pt-40 pb-24 md:pb-32">
+      <Seo title={service.title} description={service.summary} />
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <LocaleLink
+          to={{ pathname: '/', hash: '#services' }}
+          className="inline-flex items-center gap-2 font-outfit text-sm text-muted hover:text-accent tracking-wider transition-colors duration-300 mb-12"
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rotate-180 rtl:rotate-0">
+            <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+          {t('servicePage.back')}
+        </LocaleLink>
+
+        <header className="mb-20 md:mb-32">
+          <span className="text-accent font-outfit text-sm tracking-[0.3em] mb-6 block">0{index + 1}</span>
+          <h1 className="font-cormorant text-5xl md:text-7xl text-ink leading-[0.95] mb-8 max-w-4xl">
+            <TextReveal>{service.title}</TextReveal>
+          </h1>
+          <motion.p
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8, delay: 0.3 }}
+            className="font-outfit text-muted text-base md:text-xl max-w-2xl leading-relaxed"
+          >
+            {service.summary}
+          </motion.p>
+        </header>
+
+        <section className="grid grid-cols-1 lg:grid-cols-2 gap-12 md:gap-24 mb-24 md:mb-32">
+          <SectionHeading eyebrow={t('servicePage.deliverablesEyebrow')}>{t('servicePage.deliverablesTitle')}</SectionHeading>
+          <motion.ul
+            ref={ref}
+            initial={{ opacity: 0, y: 40 }}
+            animate={inView ? { opacity: 1, y: 0 } : { opacity: 0, y: 40 }}
+            transition={{ duration: 0.8, ease: [0.22, 1, 0.36, 1] }}
+            className="border-t border-line"
+          >
+            {service.deliverables.map((deliverable) => (
+              <li key={deliverable} className="flex items-start gap-4 py-4 border-b border-line font-outfit text-soft">
+                <span className="mt-2 w-1.5 h-1.5 bg-accent shrink-0" aria-hidden="true" />
+                {deliverable}
+              </li>
+            ))}
+          </motion.ul>
+        </section>
+
+        <section className="mb-24 md:mb-32">
+          <SectionHeading eyebrow={t('servicePage.timelineEyebrow')}>{t('servicePage.timelineTitle')}</SectionHeading>
+          <ol className="grid grid-cols-1 md:grid-cols-3 gap-[1px] bg-line border border-line">
+            {service.timeline.map((phase, i) => (
+              <li key={phase.phase} className="bg-canvas p-6 md:p-8">
+                <div className="flex items-baseline justify-between mb-4">
+                  <span className="font-cormorant text-2xl md:text-3xl text-ink">
+                    <span className="text-accent font-outfit text-sm tracking-[0.3em] mr-3">0{i + 1}</span>
+                    {phase.phase}
+                  </span>
+                  <span className="font-outfit text-xs text-muted tracking-wider">{phase.duration}</span>
+                </div>
+                <p className="font-outfit text-sm text-muted leading-relaxed">{phase.description}</p>
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        <section className="mb-24 md:mb-32">
+          <SectionHeading eyebrow={t('servicePage.tiersEyebrow')}>{t('servicePage.tiersTitle')}</SectionHeading>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {service.tiers.map((tier, i) => (
+              <div
+                key={tier.name}
+                className={`border p-8 md:p-10 flex flex-col ${i === service.tiers.length - 1 ? 'border-accent' : 'border-line'}`}
+              >
+                <h3 className="font-cormorant text-3xl text-ink mb-2">{tier.name}</h3>
+                <p className="font-outfit text-accent tracking-wider mb-4">{tier.price}</p>
+                <p className="font-outfit text-sm text-muted leading-relaxed mb-6">{tier.description}</p>
+                <ul className="space-y-3 mb-8">
+                  {tier.features.map((feature) => (
+                    <li key={feature} className="flex items-start gap-3 font-outfit text-sm text-soft">
+                      <span className="text-accent" aria-hidden="true">—</span>
+                      {feature}
+                    </li>
+                  ))}
+                </ul>
+                <LocaleLink
+                  to={{ pathname: '/', hash: '#contact' }}
+                  onClick={() => track('cta_click', { cta: 'service-tier', detail: `${service.slug}:${tier.name}` })}
+                  className="mt-auto inline-flex items-center gap-3 font-outfit text-sm text-accent tracking-wider hover:text-ink transition-colors duration-300"
+                >
+                  {t('servicePage.discussTier', { tier: tier.name })}
+                  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100">
+                    <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                  </svg>
+                </LocaleLink>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="mb-24 md:mb-32">
+          <SectionHeading eyebrow={t('servicePage.faqEyebrow')}>{t('servicePage.faqTitle')}</SectionHeading>
+          <div className="border-t border-line">
+            {service.faqs.map((faq, i) => (
+              <FaqItem key={faq.question} faq={faq} id={`faq-${service.slug}-${i}`} />
+            ))}
+          </div>
+        </section>
+
+        {related.length > 0 && (
+          <section className="mb-24 md:mb-32">
+            <SectionHeading eyebrow={t('servicePage.relatedEyebrow')}>{t('servicePage.relatedTitle')}</SectionHeading>
+            <div className="space-y-[1px] bg-line">
+              {related.map((project, i) => (
+                <ProjectRow key={project.slug} project={project} index={i} visible />
+              ))}
+            </div>
+          </section>
+        )}
+
+        <nav aria-label={t('servicePage.others')}>
+          <span className="font-outfit text-xs tracking-[0.4em] text-muted uppercase block mb-6">{t('servicePage.others')}</span>
+          <div className="flex flex-wrap gap-3">
+            {others.map((other) => (
+              <LocaleLink
+                key={other.slug}
+                to={`/services/${other.slug}`}
+                className="font-outfit text-sm tracking-wider px-4 py-2 border border-line text-muted hover:text-accent hover:border-accent transition-colors duration-300"
+              >
+                {other.title}
+              </LocaleLink>
+            ))}
+          </div>
+        </nav>
+      </div>
+    </article>
+  );
+};
@@ -0,0 +1,272 @@
+import { useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
+import { TextReveal } from '../components/TextReveal';
+import { FilterChip } from '../components/FilterChip';
+import { LocaleLink, useI18n, useContent } from '../i18n';
+import { useFocusTrap } from '../hooks/useFocusTrap';
+import { useScrollLock } from '../hooks/useScrollLock';
+import { useAnalytics } from '../analytics';
+import { company, type OfficeId } from '../company';
+import { Seo } from '../seo';
+import type { TeamMember } from '../content';
+
+const initials = (name: string) =>
+  name
+    .replace(/^Dr\.?\s+/, '')
+    .split(/\s+/)
+    .map((part) => part[0])
+    .slice(0, 2)
+    .join('');
+
+const Monogram = ({ member, large = false }: { member: TeamMember; large?: boolean }) => (
+  <span
+    aria-hidden="true"
+    className={`flex items-center justify-center rounded-full border border-accent/40 bg-surface font-cormorant text-accent shrink-0 ${
+      large ? 'w-24 h-24 text-4xl' : 'w-16 h-16 text-2xl'
+    }`}
+  >
+    {initials(member.name)}
+  </span>
+);
+
+const Tags = ({ tags }: { tags: string[] }) => (
+  <ul className="flex flex-wrap gap-2">
+    {tags.map((tag) => (
+      <li key={tag} className="font-outfit text-xs tracking-wider text-muted border border-line px-3 py-1">
+        {tag}
+      </li>
+    ))}
+  </ul>
+);
+
+const arrow = (
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="none" className="stroke-current rtl:-scale-x-100" aria-hidden="true">
+    <path d="M3 8h10M9 4l4 4-4 4" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
+// Profile detail; related services and case studies link out of the modal
+const MemberDialog = ({ member, onClose }: { member: TeamMember | null; onClose: () => void }) => {
+  const { t } = useI18n();
+  const { services, projects } = useContent();
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  useScrollLock(!!member);
+  useFocusTrap(dialogRef, !!member, { onEscape: onClose });
+
+  return (
+    <AnimatePresence>
+      {member && (
+        <motion.div
+          key={member.slug}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+          className="fixed inset-0 z-[60] bg-canvas/90 backdrop-blur-sm flex items-center justify-center p-4 md:p-6"
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <motion.div
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="team-member-name"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+            className="relative w-full max-w-2xl max-h-full overflow-y-auto bg-canvas border border-line p-6 md:p-10 text-start"
+          >
+            <button
+              type="button"
+              onClick={onClose}
+              aria-label={t('team.close')}
+              className="absolute top-6 end-6 text-muted hover:text-ink transition-colors duration-300"
+            >
+              <svg aria-hidden="true" className="w-5 h-5" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5">
+                <path d="M3 3l10 10M13 3L3 13" />
+              </svg>
+            </button>
+
+            <div className="flex items-center gap-6 mb-8">
+              <Monogram member={member} large />
+              <div>
+                <h2 id="team-member-name" className="font-cormorant text-3xl md:text-4xl text-ink leading-tight">
+                  {member.name}
+                </h2>
+                <p className="font-outfit text-sm text-accent tracking-wider mt-1">{member.role}</p>
+                <p className="font-outfit text-xs text-muted tracking-[0.2em] uppercase mt-2">
+                  {t(`offices.${member.office as OfficeId}`)}
+                </p>
+              </div>
+            </div>
+
+            <p className="font-outfit text-soft leading-relaxed mb-8">{member.bio}</p>
+
+            <h3 className="font-outfit text-xs text-muted tracking-[0.2em] uppercase mb-3">{t('team.expertise')}</h3>
+            <div className="mb-8">
+              <Tags tags={member.expertise} />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-8">
+              <div>
+                <h3 className="font-outfit text-xs text-muted tracking-[0.2em] uppercase mb-3">{t('team.services')}</h3>
+                <ul className="space-y-2">
+                  {services
+                    .filter((service) => member.services.includes(service.slug))
+                    .map((service) => (
+                      <li key={service.slug}>
+                        <LocaleLink
+                          to={`/services/${service.slug}`}
+                          className="inline-flex items-center gap-3 font-outfit text-sm text-ink hover:text-accent transition-colors duration-300"
+                        >
+                          {service.title}
+                          {arrow}
+                        </LocaleLink>
+                      </li>
+                    ))}
+                </ul>
+              </div>
+              <div>
+                <h3 className="font-outfit text-xs text-muted tracking-[0.2em] uppercase mb-3">{t('team.projects')}</h3>
+                <ul className="space-y-2">
+                  {projects
+                    .filter((project) => member.projects.includes(project.slug))
+                    .map((project) => (
+                      <li key={project.slug}>
+                        <LocaleLink
+                          to={`/work/${project.slug}`}
+                          className="inline-flex items-center gap-3 font-outfit text-sm text-ink hover:text-accent transition-colors duration-300"
+                        >
+                          {project.name}
+                          {arrow}
+                        </LocaleLink>
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export const TeamPage = () => {
+  const { t } = useI18n();
+  const { track } = useAnalytics();
+  const { team } = useContent();
+  const [params, setParams] = useSearchParams();
+  const office = params.get('office');
+  const expertise = params.get('expertise');
+  const selected = team.find((member) => member.slug === params.get('member')) ?? null;
+
+  // Filters and the open profile live in the URL so both can be shared
+  const setParam = (key: 'office' | 'expertise' | 'member', value: string | null) => {
+    const next = new URLSearchParams(params);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    // Opening a profile adds a history entry, so Back closes it
+    setParams(next, { replace: !(key === 'member' && value), state: { preserveScroll: true } });
+  };
+
+  const open = (member: TeamMember) => {
+    track('team_open', { member: member.slug });
+    setParam('member', member.slug);
+  };
+
+  const tags = [...new Set(team.flatMap((member) => member.expertise))].sort();
+  const filtered = team.filter(
+    (member) => (!office || member.office === office) && (!expertise || member.expertise.includes(expertise))
+  );
+
+  return (
+    <section className="pt-40 pb-24 md:pb-32 min-h-screen">
+      <Seo title={t('meta.teamTitle')} description={t('meta.teamDescription')} />
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <div className="mb-16 md:mb-20">
+          <motion.span
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.5 }}
+            className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4"
+          >
+            {t('team.eyebrow')}
+          </motion.span>
+          <h1 className="font-cormorant text-5xl md:text-6xl lg:text-7xl text-ink leading-tight">
+            <TextReveal>{t('team.titleLine1')}</TextReveal>
+            <br />
+            <span className="italic text-accent"><TextReveal delay={0.2}>{t('team.titleLine2')}</TextReveal></span>
+          </h1>
+        </div>
+
+        <div className="flex flex-col gap-6 mb-12" role="group" aria-label={t('team.filters')}>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-outfit text-xs text-muted tracking-[0.2em] uppercase w-24">{t('team.office')}</span>
+            <FilterChip label={t('workIndex.all')} active={!office} onClick={() => setParam('office', null)} />
+            {company.offices.map(({ id }) => (
+              <FilterChip key={id} label={t(`offices.${id}`)} active={office === id} onClick={() => setParam('office', id)} />
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-outfit text-xs text-muted tracking-[0.2em] uppercase w-24">{t('team.expertise')}</span>
+            <FilterChip label={t('workIndex.all')} active={!expertise} onClick={() => setParam('expertise', null)} />
+            {tags.map((tag) => (
+              <FilterChip key={tag} label={tag} active={expertise === tag} onClick={() => setParam('expertise', tag)} />
+            ))}
+          </div>
+        </div>
+
+        {filtered.length > 0 ? (
+          <motion.ul layout className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-[1px] bg-line border border-line">
+            <AnimatePresence initial={false}>
+              {filtered.map((member) => (
+                <motion.li
+                  key={member.slug}
+                  layout
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  exit={{ opacity: 0 }}
+                  transition={{ duration: 0.4, ease: [0.22, 1, 0.36, 1] }}
+                  className="bg-canvas"
+                >
+                  <button
+                    type="button"
+                    onClick={() => open(member)}
+                    aria-haspopup="dialog"
+                    className="group w-full h-full text-start p-8 md:p-10 hover:bg-surface transition-colors duration-500"
+                  >
+                    <Monogram member={member} />
+                    <span className="block font-cormorant text-2xl md:text-3xl text-ink group-hover:text-accent transition-colors duration-300 mt-6">
+                      {member.name}
+                    </span>
+                    <span className="block font-outfit text-sm text-soft mt-1">{member.role}</span>
+                    <span className="block font-outfit text-xs text-muted tracking-[0.2em] uppercase mt-3 mb-6">
+                      {t(`offices.${member.office as OfficeId}`)}
+                    </span>
+                    <Tags tags={member.expertise} />
+                  </button>
+                </motion.li>
+              ))}
+            </AnimatePresence>
+          </motion.ul>
+        ) : (
+          <div className="border border-line p-12 text-center">
+            <p className="font-outfit text-muted mb-4">{t('team.empty')}</p>
+            <LocaleLink
+              to="/team"
+              replace
+              className="font-outfit text-sm text-accent hover:text-ink tracking-wider transition-colors duration-300"
+            >
+              {t('workIndex.clear')}
+            </LocaleLink>
+          </div>
+        )}
+      </div>
+
+      <MemberDialog member={selected} onClose={() => setParam('member', null)} />
+    </section>
+  );
+};
@@ -0,0 +1,19 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { screen } from '@testing-library/react';
+import { renderApp } from '../test/render';
+import { installIntersectionObserver, uninstallIntersectionObserver } from '../test/intersectionObserver';
+
+beforeEach(installIntersectionObserver);
+afterEach(uninstallIntersectionObserver);
+
+describe('Work index category filter', () => {
+  it.each([
+    ['/work?category=diagnostic-ai', 'Diagnostic AI'],
+    ['/fr/work?category=diagnostic-ai', 'IA de diagnostic'],
+  ])('selects the same category by id in %s', async (url, label) => {
+    renderApp(url);
+    expect(await screen.findByRole('button', { name: label, pressed: true })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /Vantage Health/ })).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: /Meridian Finance/ })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,89 @@
+import { motion } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
+import { TextReveal } from '../components/TextReveal';
+import { ProjectRow } from '../components/ProjectRow';
+import { FilterChip } from '../components/FilterChip';
+import { LocaleLink, useI18n, useContent } from '../i18n';
+import { Seo } from '../seo';
+
+export const WorkIndex = () => {
+  const { t } = useI18n();
+  const { projects } = useContent();
+  const [params, setParams] = useSearchParams();
+  const category = params.get('category');
+  const year = params.get('year');
+
+  const setFilter = (key: 'category' | 'year', value: string | null) => {
+    const next = new URLSearchParams(params);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    setParams(next, { replace: true, state: { preserveScroll: true } });
+  };
+
+  // One chip per category id, labelled in the current locale
+  const categories = [...new Map(projects.map((project) => [project.categoryId, project.category])).entries()];
+  const years = [...new Set(projects.map((project) => project.year))].sort().reverse();
+
+  const filtered = projects.filter(
+    (project) => (!category || project.categoryId === category) && (!year || project.year === year)
+  );
+
+  return (
+    <section className="pt-40 pb-24 md:pb-32 min-h-screen">
+      <Seo title={t('meta.workTitle')} description={t('meta.workDescription')} />
+      <div className="max-w-7xl mx-auto px-6 md:px-12">
+        <div className="mb-16 md:mb-20">
+          <motion.span
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.5 }}
+            className="font-outfit text-xs tracking-[0.4em] text-accent uppercase block mb-4"
+          >
+            {t('workIndex.eyebrow')}
+          </motion.span>
+          <h1 className="font-cormorant text-5xl md:text-6xl lg:text-7xl text-ink leading-tight">
+            <TextReveal>{t('workIndex.titleLine1')}</TextReveal>
+            <br />
+            <span className="italic text-accent"><TextReveal delay={0.2}>{t('workIndex.titleLine2')}</TextReveal></span>
+          </h1>
+        </div>
+
+        <div className="flex flex-col gap-6 mb-12" role="group" aria-label={t('workIndex.filters')}>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-outfit text-xs text-muted tracking-[0.2em] uppercase w-24">{t('workIndex.category')}</span>
+            <FilterChip label={t('workIndex.all')} active={!category} onClick={() => setFilter('category', null)} />
+            {categories.map(([id, label]) => (
+              <FilterChip key={id} label={label} active={category === id} onClick={() => setFilter('category', id)} />
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="font-outfit text-xs text-muted tracking-[0.2em] uppercase w-24">{t('workIndex.year')}</span>
+            <FilterChip label={t('workIndex.all')} active={!year} onClick={() => setFilter('year', null)} />
+            {years.map((value) => (
+              <FilterChip key={value} label={value} active={year === value} onClick={() => setFilter('year', value)} />
+            ))}
+          </div>
+        </div>
+
+        {filtered.length > 0 ? (
+          <div className="space-y-[1px] bg-line">
+            {filtered.map((project, i) => (
+              <ProjectRow key={project.slug} project={project} index={i} visible />
+            ))}
+          </div>
+        ) : (
+          <div className="border border-line p-12 text-center">
+            <p className="font-outfit text-muted mb-4">{t('workIndex.empty')}</p>
+            <LocaleLink
+              to="/work"
+              replace
+              className="font-outfit text-sm text-accent hover:text-ink tracking-wider transition-colors duration-300"
+            >
+              {t('workIndex.clear')}
+            </LocaleLink>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,2 @@
+export { registerServiceWorker, queueConsultation, onQueueMessage } from './register';
+export * from './protocol';
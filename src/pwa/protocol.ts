@@ -0,0 +1,17 @@
+// Messages and names shared by the page and the service worker
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+// Background Sync tag for queued consultation requests
+export const CONSULTATION_SYNC_TAG = 'consultation-queue';
+
+export type PageMessage =
+  // Stores a request for delivery once the network is back; acknowledged on the message port
+  | { type: 'queue-consultation'; endpoint: string; body: string }
+  // Tries queued requests now, for browsers without Background Sync
+  | { type: 'flush-queue' };
+
+export type WorkerMessage =
+  | { type: 'queued'; ok: boolean }
+  | { type: 'consultation-delivered'; reference?: string }
+  | { type: 'consultation-rejected'; message?: string };
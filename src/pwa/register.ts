@@ -0,0 +1,41 @@
+import { SERVICE_WORKER_URL, type PageMessage, type WorkerMessage } from './protocol';
+
+const post = (message: PageMessage) => navigator.serviceWorker?.controller?.postMessage(message);
+
+// Registers the service worker after load so it never competes with the first render
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(() => {
+      // The site works without it, just not offline
+    });
+  });
+  // Without Background Sync, queued requests go out when the page sees the network return
+  window.addEventListener('online', () => post({ type: 'flush-queue' }));
+};
+
+// Hands a consultation request to the service worker for delivery when the
+// network returns. Resolves false when no worker controls the page.
+export const queueConsultation = (endpoint: string, body: string) =>
+  new Promise<boolean>((resolve) => {
+    const worker = navigator.serviceWorker?.controller;
+    if (!worker) {
+      resolve(false);
+      return;
+    }
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => resolve(false), 3000);
+    channel.port1.onmessage = ({ data }: MessageEvent<WorkerMessage>) => {
+      clearTimeout(timer);
+      resolve(data.type === 'queued' && data.ok);
+    };
+    worker.postMessage({ type: 'queue-consultation', endpoint, body } satisfies PageMessage, [channel.port2]);
+  });
+
+// Notifies the page when a queued request is delivered or turned down
+export const onQueueMessage = (listener: (message: WorkerMessage) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handle = ({ data }: MessageEvent<WorkerMessage>) => listener(data);
+  navigator.serviceWorker.addEventListener('message', handle);
+  return () => navigator.serviceWorker.removeEventListener('message', handle);
+};
@@ -0,0 +1,21 @@
+// Section scrolling that accounts for the fixed site header
+
+export const HEADER_SELECTOR = '[data-site-header]';
+
+export const getHeaderOffset = () =>
+  document.querySelector<HTMLElement>(`${HEADER_SELECTOR} nav`)?.getBoundingClientRect().height ?? 0;
+
+export const scrollToSection = (id: string, { smooth = true, focus = true }: { smooth?: boolean; focus?: boolean } = {}) => {
+  const target = document.getElementById(id);
+  if (!target) return false;
+
+  const top = target.getBoundingClientRect().top + window.scrollY - getHeaderOffset();
+  window.scrollTo({ top: Math.max(0, top), behavior: smooth ? 'smooth' : 'auto' });
+
+  // Move keyboard and screen-reader focus to the section without a second jump
+  if (focus) {
+    if (!target.hasAttribute('tabindex')) target.setAttribute('tabindex', '-1');
+    target.focus({ preventScroll: true });
+  }
+  return true;
+};
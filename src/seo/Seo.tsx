@@ -0,0 +1,35 @@
+import { createContext, useContext, useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { stripLocale, useI18n } from '../i18n';
+import { headTags, applyHeadTags, type HeadTag, type PageMeta } from './head';
+
+// The pre-renderer provides a collector; in the browser tags are applied directly
+export interface HeadCollector {
+  tags: HeadTag[];
+}
+
+export const HeadContext = createContext<HeadCollector | null>(null);
+
+type SeoProps = Omit<PageMeta, 'path' | 'locale' | 'title'> & {
+  // Page name, shown as "<title> — NexusAI"; omitted for the home page
+  title?: string;
+};
+
+export const Seo = ({ title, ...meta }: SeoProps) => {
+  const collector = useContext(HeadContext);
+  const { locale, t } = useI18n();
+  const { pathname } = useLocation();
+
+  const tags = headTags({
+    ...meta,
+    title: title ? t('meta.title', { page: title }) : t('meta.homeTitle'),
+    path: stripLocale(pathname),
+    locale,
+  });
+  if (collector) collector.tags = tags;
+
+  const key = JSON.stringify(tags);
+  useEffect(() => applyHeadTags(tags), [key]);
+
+  return null;
+};
@@ -0,0 +1,40 @@
+// RSS 2.0 feed of insight articles, written next to the pre-rendered pages
+import { company } from '../company';
+import { absoluteUrl, FEED_PATH } from './head';
+import type { Insight } from '../insights';
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Article bodies go in CDATA; a literal `]]>` is split so it cannot end the section
+const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+export const rssFeed = (posts: Insight[], { title, description }: { title: string; description: string }) => {
+  const items = posts.map((post) => {
+    const url = absoluteUrl(`/insights/${post.slug}`);
+    return `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${url}</link>
+      <guid isPermaLink="true">${url}</guid>
+      <pubDate>${new Date(post.date).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(post.author)}</dc:creator>
+${post.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`).join('\n')}
+      <description>${escapeXml(post.summary)}</description>
+      <content:encoded>${cdata(post.html)}</content:encoded>
+    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeXml(title)}</title>
+    <link>${absoluteUrl('/insights')}</link>
+    <description>${escapeXml(description)}</description>
+    <language>en</language>
+    <copyright>${escapeXml(company.name)}</copyright>
+    <atom:link href="${absoluteUrl(FEED_PATH)}" rel="self" type="application/rss+xml"/>
+${posts[0] ? `    <lastBuildDate>${new Date(posts[0].date).toUTCString()}</lastBuildDate>\n` : ''}${items.join('\n')}
+  </channel>
+</rss>
+`;
+};
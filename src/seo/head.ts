@@ -0,0 +1,94 @@
+// Document head tags for a page, rendered to a string by the pre-renderer
+// and applied to the live document on the client
+import { company } from '../company';
+import { locales, localizePath, getLocaleConfig, defaultLocale, type Locale } from '../i18n/config';
+
+export const SITE_URL = (import.meta.env.VITE_SITE_URL ?? 'https://nexusai.com').replace(/\/$/, '');
+
+export const FEED_PATH = '/feed.xml';
+
+export const absoluteUrl = (path: string) => (/^https?:\/\//.test(path) ? path : `${SITE_URL}${path}`);
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  // Locale-free path of the page, e.g. /work/aurora
+  path: string;
+  locale: Locale;
+  image?: string;
+  type?: 'website' | 'article';
+  noindex?: boolean;
+  jsonLd?: object[];
+}
+
+export interface HeadTag {
+  tag: 'title' | 'meta' | 'link' | 'script';
+  attrs: Record<string, string>;
+  content?: string;
+}
+
+export const headTags = ({ title, description, path, locale, image, type = 'website', noindex, jsonLd = [] }: PageMeta): HeadTag[] => {
+  const url = absoluteUrl(localizePath(path, locale));
+  const meta = (key: 'name' | 'property', name: string, content: string): HeadTag => ({ tag: 'meta', attrs: { [key]: name, content } });
+
+  return [
+    { tag: 'title', attrs: {}, content: title },
+    meta('name', 'description', description),
+    ...(noindex ? [meta('name', 'robots', 'noindex')] : []),
+    { tag: 'link', attrs: { rel: 'canonical', href: url } },
+    ...locales.map(({ code }): HeadTag => ({
+      tag: 'link',
+      attrs: { rel: 'alternate', hreflang: code, href: absoluteUrl(localizePath(path, code)) },
+    })),
+    { tag: 'link', attrs: { rel: 'alternate', hreflang: 'x-default', href: absoluteUrl(localizePath(path, defaultLocale)) } },
+    { tag: 'link', attrs: { rel: 'alternate', type: 'application/rss+xml', title: `${company.name} Insights`, href: absoluteUrl(FEED_PATH) } },
+    meta('property', 'og:site_name', company.name),
+    meta('property', 'og:type', type),
+    meta('property', 'og:title', title),
+    meta('property', 'og:description', description),
+    meta('property', 'og:url', url),
+    meta('property', 'og:locale', getLocaleConfig(locale).intl.replace('-', '_')),
+    ...(image ? [meta('property', 'og:image', absoluteUrl(image))] : []),
+    meta('name', 'twitter:card', image ? 'summary_large_image' : 'summary'),
+    meta('name', 'twitter:title', title),
+    meta('name', 'twitter:description', description),
+    ...(image ? [meta('name', 'twitter:image', absoluteUrl(image))] : []),
+    ...jsonLd.map((data): HeadTag => ({ tag: 'script', attrs: { type: 'application/ld+json' }, content: JSON.stringify(data) })),
+  ];
+};
+
+// Marks tags this module owns so the client can replace them on navigation
+const OWNED = 'data-head';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// `<` is escaped inside JSON-LD so content can never close the script early
+const escapeScript = (value: string) => value.replace(/</g, '\\u003c');
+
+export const renderHeadTags = (tags: HeadTag[]) =>
+  tags
+    .map(({ tag, attrs, content }) => {
+      const attributes = Object.entries(tag === 'title' ? attrs : { ...attrs, [OWNED]: '' })
+        .map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`))
+        .join('');
+      if (tag === 'meta' || tag === 'link') return `<${tag}${attributes}>`;
+      const body = tag === 'script' ? escapeScript(content ?? '') : escapeHtml(content ?? '');
+      return `<${tag}${attributes}>${body}</${tag}>`;
+    })
+    .join('\n    ');
+
+export const applyHeadTags = (tags: HeadTag[]) => {
+  document.head.querySelectorAll(`[${OWNED}]`).forEach((element) => element.remove());
+  tags.forEach(({ tag, attrs, content }) => {
+    if (tag === 'title') {
+      document.title = content ?? '';
+      return;
+    }
+    const element = document.createElement(tag);
+    Object.entries(attrs).forEach(([name, value]) => element.setAttribute(name, value));
+    element.setAttribute(OWNED, '');
+    if (content) element.textContent = content;
+    document.head.appendChild(element);
+  });
+};
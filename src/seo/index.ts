@@ -0,0 +1,5 @@
+export { Seo, HeadContext, type HeadCollector } from './Seo';
+export { headTags, renderHeadTags, applyHeadTags, absoluteUrl, SITE_URL, FEED_PATH, type PageMeta, type HeadTag } from './head';
+export { organizationJsonLd } from './organization';
+export { sitemapXml, robotsTxt } from './sitemap';
+export { rssFeed } from './feed';
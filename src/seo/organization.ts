@@ -0,0 +1,14 @@
+// schema.org Organization data for the company, embedded as JSON-LD
+import { company } from '../company';
+import { SITE_URL } from './head';
+
+export const organizationJsonLd = () => ({
+  '@context': 'https://schema.org',
+  '@type': 'Organization',
+  name: company.name,
+  url: SITE_URL,
+  email: company.email,
+  contactPoint: { '@type': 'ContactPoint', contactType: 'sales', email: company.email },
+  location: company.offices.map(({ city }) => ({ '@type': 'Place', address: { '@type': 'PostalAddress', addressLocality: city } })),
+  sameAs: company.socials.map((social) => social.href).filter((href) => /^https?:\/\//.test(href)),
+});
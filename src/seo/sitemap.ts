@@ -0,0 +1,26 @@
+// sitemap.xml and robots.txt for the pre-rendered pages
+import { locales, localizePath } from '../i18n/config';
+import { absoluteUrl } from './head';
+
+export const sitemapXml = (paths: string[]) => {
+  const urls = paths.flatMap((path) =>
+    locales.map(({ code }) => {
+      const alternates = locales
+        .map((alternate) => `    <xhtml:link rel="alternate" hreflang="${alternate.code}" href="${absoluteUrl(localizePath(path, alternate.code))}"/>`)
+        .join('\n');
+      return `  <url>\n    <loc>${absoluteUrl(localizePath(path, code))}</loc>\n${alternates}\n  </url>`;
+    })
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+${urls.join('\n')}
+</urlset>
+`;
+};
+
+export const robotsTxt = () => `User-agent: *
+Allow: /
+
+Sitemap: ${absoluteUrl('/sitemap.xml')}
+`;
@@ -0,0 +1,209 @@
+// Service worker, bundled on its own by plugins/pwa.ts. Precaches the app
+// shell and fonts, keeps visited pages for offline use, and delivers
+// consultation requests queued while offline.
+import { CONSULTATION_SYNC_TAG, type PageMessage, type WorkerMessage } from '../pwa/protocol';
+
+declare const self: ServiceWorkerGlobalScope;
+// Injected at build time: site paths to precache, and a hash of them
+declare const __PRECACHE__: string[];
+declare const __VERSION__: string;
+// Locales other than the default, each with its own offline page under /<code>/
+declare const __LOCALES__: string[];
+
+// Background Sync is not in TypeScript's bundled typings yet
+interface SyncEvent extends ExtendableEvent {
+  tag: string;
+}
+type SyncRegistration = ServiceWorkerRegistration & { sync?: { register: (tag: string) => Promise<void> } };
+
+// Pages reference hashed assets, so they are versioned and dropped with the shell
+const SHELL_CACHE = `nexus-shell-${__VERSION__}`;
+const PAGES_CACHE = `nexus-pages-${__VERSION__}`;
+const VERSIONED_CACHES = ['nexus-shell-', 'nexus-pages-'];
+const RUNTIME_CACHE = 'nexus-runtime';
+// Same-origin endpoints and dev tooling; never served from a cache
+const UNCACHED_PATH = /^\/(api|__)/;
+const SHELL_URL = '/';
+// Flaky networks get this long before a cached page is served instead
+const NETWORK_TIMEOUT_MS = 3000;
+
+// Install and activate
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(__PRECACHE__))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => VERSIONED_CACHES.some((prefix) => key.startsWith(prefix)) && key !== SHELL_CACHE && key !== PAGES_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+      .then(() => flushQueue().catch(() => {}))
+  );
+});
+
+// Requests
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('timeout')), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+
+const offlinePage = (pathname: string) => {
+  const locale = __LOCALES__.find((code) => pathname === `/${code}` || pathname.startsWith(`/${code}/`));
+  return locale ? `/${locale}/offline.html` : '/offline.html';
+};
+
+// Network first, so content is fresh; then the saved copy of the page, then
+// the app shell, which renders any route from the bundled content, and
+// finally the offline page
+const handleNavigation = async (request: Request) => {
+  const network = fetch(request);
+  network.catch(() => {});
+  try {
+    const response = await withTimeout(network, NETWORK_TIMEOUT_MS);
+    if (response.ok) {
+      const copy = response.clone();
+      caches.open(PAGES_CACHE).then((cache) => cache.put(request, copy));
+    }
+    return response;
+  } catch {
+    const cached =
+      (await caches.match(request, { cacheName: PAGES_CACHE })) ??
+      (await caches.match(SHELL_URL, { cacheName: SHELL_CACHE })) ??
+      (await caches.match(offlinePage(new URL(request.url).pathname)));
+    // A slow but working network still wins over the offline page
+    return cached ?? network;
+  }
+};
+
+// Hashed build output never changes, so the precached copy is always right
+const handleAsset = async (request: Request) => (await caches.match(request)) ?? fetch(request);
+
+// Images and other public files: serve what we have, refresh it in the background
+const handleRuntime = async (request: Request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then((response) => {
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    refresh.catch(() => {});
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || UNCACHED_PATH.test(url.pathname)) return;
+
+  if (request.mode === 'navigate') event.respondWith(handleNavigation(request));
+  else if (url.pathname.startsWith('/assets/')) event.respondWith(handleAsset(request));
+  // Only files the page loads itself (images, fonts, the manifest); data
+  // fetched from scripts has no destination and always goes to the network
+  else if (request.destination) event.respondWith(handleRuntime(request));
+});
+
+// Consultation queue, kept in IndexedDB so it survives the worker being stopped
+
+interface QueuedRequest {
+  id?: number;
+  endpoint: string;
+  body: string;
+  queuedAt: number;
+}
+
+const DB_NAME = 'nexus-pwa';
+const STORE = 'consultations';
+
+const openQueue = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+
+const inStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) =>
+  openQueue().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = run(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      })
+  );
+
+const notifyClients = async (message: WorkerMessage) => {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage(message));
+};
+
+let flushing: Promise<void> | null = null;
+
+// Worth another try later: the server is struggling or rate limiting
+const retryable = (status: number) => status >= 500 || status === 429;
+
+// Sends queued requests in order. A network failure or a retryable status
+// keeps the entry and stops the run with a rejection, so Background Sync
+// (or the next `online` event) tries again; any other refusal is final.
+const flushQueue = () =>
+  (flushing ??= (async () => {
+    const queued = await inStore<QueuedRequest[]>('readonly', (store) => store.getAll());
+    for (const entry of queued) {
+      const response = await fetch(entry.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+        body: entry.body,
+      });
+      if (retryable(response.status)) throw new Error(`HTTP ${response.status}`);
+      const body = await response.json().catch(() => ({}));
+      await inStore('readwrite', (store) => store.delete(entry.id!));
+      await notifyClients(
+        response.ok
+          ? { type: 'consultation-delivered', reference: body.reference }
+          : { type: 'consultation-rejected', message: body.message }
+      );
+    }
+  })().finally(() => (flushing = null)));
+
+self.addEventListener('message', (event) => {
+  const message = event.data as PageMessage;
+  if (message?.type === 'flush-queue') {
+    event.waitUntil(flushQueue().catch(() => {}));
+  } else if (message?.type === 'queue-consultation') {
+    const reply = (ok: boolean) => event.ports[0]?.postMessage({ type: 'queued', ok } satisfies WorkerMessage);
+    event.waitUntil(
+      inStore('readwrite', (store) => store.add({ endpoint: message.endpoint, body: message.body, queuedAt: Date.now() }))
+        .then(
+          () => {
+            reply(true);
+            // Where Background Sync is missing, the page's `online` listener flushes instead
+            return (self.registration as SyncRegistration).sync?.register(CONSULTATION_SYNC_TAG).catch(() => {});
+          },
+          () => reply(false)
+        )
+    );
+  }
+});
+
+self.addEventListener('sync', (event) => {
+  const sync = event as SyncEvent;
+  if (sync.tag === CONSULTATION_SYNC_TAG) sync.waitUntil(flushQueue());
+});
@@ -0,0 +1,20 @@
+// Accessibility checks with axe-core
+import axe from 'axe-core';
+
+const options: axe.RunOptions = {
+  rules: {
+    // jsdom does no layout or painting, so contrast is left to the visual suite
+    'color-contrast': { enabled: false },
+    // Checked per section; landmarks and the page title belong to the whole document
+    region: { enabled: false },
+  },
+};
+
+const describe = ({ id, help, nodes }: axe.Result) =>
+  `${id}: ${help}\n${nodes.map((node) => `  ${node.target.join(' ')}`).join('\n')}`;
+
+// Resolves to a readable list of violations, empty when the element passes
+export const axeViolations = async (element: Element) => {
+  const { violations } = await axe.run(element, options);
+  return violations.map(describe);
+};
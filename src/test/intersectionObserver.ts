@@ -0,0 +1,77 @@
+// Controllable IntersectionObserver for jsdom, which has none. Nothing is
+// reported until a test calls `intersect`.
+import { act } from '@testing-library/react';
+
+export class MockIntersectionObserver implements IntersectionObserver {
+  static instances: MockIntersectionObserver[] = [];
+
+  readonly root = null;
+  readonly rootMargin: string;
+  readonly thresholds: number[];
+  readonly targets = new Set<Element>();
+  disconnected = false;
+
+  constructor(
+    private readonly callback: IntersectionObserverCallback,
+    { rootMargin = '0px', threshold = 0 }: IntersectionObserverInit = {}
+  ) {
+    this.rootMargin = rootMargin;
+    this.thresholds = ([] as number[]).concat(threshold);
+    MockIntersectionObserver.instances.push(this);
+  }
+
+  observe(target: Element) {
+    this.targets.add(target);
+  }
+
+  unobserve(target: Element) {
+    this.targets.delete(target);
+  }
+
+  disconnect() {
+    this.targets.clear();
+    this.disconnected = true;
+  }
+
+  takeRecords() {
+    return [];
+  }
+
+  trigger(target: Element, isIntersecting: boolean, intersectionRatio = isIntersecting ? 1 : 0) {
+    const rect = target.getBoundingClientRect();
+    const entry: IntersectionObserverEntry = {
+      target,
+      isIntersecting,
+      intersectionRatio,
+      boundingClientRect: rect,
+      intersectionRect: rect,
+      rootBounds: null,
+      time: performance.now(),
+    };
+    this.callback([entry], this);
+  }
+}
+
+export const installIntersectionObserver = () => {
+  MockIntersectionObserver.instances = [];
+  window.IntersectionObserver = MockIntersectionObserver;
+};
+
+export const uninstallIntersectionObserver = () => {
+  Reflect.deleteProperty(window, 'IntersectionObserver');
+  MockIntersectionObserver.instances = [];
+};
+
+// Observers still watching the element
+export const observersOf = (target: Element) =>
+  MockIntersectionObserver.instances.filter((observer) => observer.targets.has(target));
+
+// Reports the element entering or leaving the viewport to everything observing it
+export const intersect = (target: Element, isIntersecting: boolean, ratio?: number) =>
+  act(() => observersOf(target).forEach((observer) => observer.trigger(target, isIntersecting, ratio)));
+
+// Brings every observed element into view, as if the whole page fitted the screen
+export const intersectAll = () =>
+  act(() =>
+    MockIntersectionObserver.instances.forEach((observer) => [...observer.targets].forEach((target) => observer.trigger(target, true)))
+  );
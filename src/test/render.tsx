@@ -0,0 +1,21 @@
+// Renders the whole site, or a piece of it, the way the browser entry does
+import type { ReactNode } from 'react';
+import { render } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import App from '../App';
+import { I18nProvider, type Locale } from '../i18n';
+
+export const renderApp = (url = '/') =>
+  render(
+    <MemoryRouter initialEntries={[url]}>
+      <App />
+    </MemoryRouter>
+  );
+
+// For components that only need a router and translations
+export const renderWithLocale = (ui: ReactNode, { url = '/', locale = 'en' }: { url?: string; locale?: Locale } = {}) =>
+  render(
+    <MemoryRouter initialEntries={[url]}>
+      <I18nProvider locale={locale}>{ui}</I18nProvider>
+    </MemoryRouter>
+  );
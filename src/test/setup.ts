@@ -0,0 +1,19 @@
+// Shared set-up for every unit and component test
+import '@testing-library/jest-dom/vitest';
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { MotionGlobalConfig } from 'framer-motion';
+
+// Animations jump to their end state so assertions never wait on a transition
+MotionGlobalConfig.skipAnimations = true;
+
+// jsdom has no scrolling; the scroll manager and chat log call these
+window.scrollTo = vi.fn() as typeof window.scrollTo;
+Element.prototype.scrollTo = vi.fn() as typeof Element.prototype.scrollTo;
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  sessionStorage.clear();
+  vi.restoreAllMocks();
+});
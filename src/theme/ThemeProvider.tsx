@@ -0,0 +1,92 @@
+import { createContext, useContext, useEffect, useLayoutEffect, useState, type ReactNode } from 'react';
+import { useMediaQuery } from '../hooks/useMediaQuery';
+import { isHydrating } from '../hydration';
+import { defaultPalette, isPalette, resolveColors, themeVariables, type PaletteName, type ThemeMode } from './tokens';
+
+export type ThemePreference = 'system' | ThemeMode;
+
+interface ThemeSettings {
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+  // Resolved from the preference and prefers-color-scheme
+  mode: ThemeMode;
+  palette: PaletteName;
+}
+
+export const STORAGE_KEY = 'nexus:theme';
+export const PALETTE_KEY = 'nexus:palette';
+
+const fromBuild = import.meta.env.VITE_BRAND_PALETTE;
+export const buildPalette: PaletteName = isPalette(fromBuild) ? fromBuild : defaultPalette;
+
+const readPreference = (): ThemePreference => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored === 'light' || stored === 'dark' ? stored : 'system';
+  } catch {
+    return 'system';
+  }
+};
+
+// A `?palette=` link switches a demo to a client palette and remembers it;
+// otherwise the build's VITE_BRAND_PALETTE, then the Nexus default, applies
+const readPalette = (): PaletteName => {
+  const fallback = buildPalette;
+  if (typeof window === 'undefined') return fallback;
+
+  const requested = new URLSearchParams(window.location.search).get('palette');
+  try {
+    if (isPalette(requested)) {
+      localStorage.setItem(PALETTE_KEY, requested);
+      return requested;
+    }
+    const stored = localStorage.getItem(PALETTE_KEY);
+    return isPalette(stored) ? stored : fallback;
+  } catch {
+    return isPalette(requested) ? requested : fallback;
+  }
+};
+
+const ThemeContext = createContext<ThemeSettings>({
+  preference: 'system',
+  setPreference: () => {},
+  mode: 'dark',
+  palette: defaultPalette,
+});
+
+export const ThemeProvider = ({ children }: { children: ReactNode }) => {
+  const [preference, setPreferenceState] = useState<ThemePreference>(() => (isHydrating() ? 'system' : readPreference()));
+  const [palette] = useState<PaletteName>(readPalette);
+  const systemLight = useMediaQuery('(prefers-color-scheme: light)');
+  const mode: ThemeMode = preference === 'system' ? (systemLight ? 'light' : 'dark') : preference;
+
+  // Pre-rendered pages hydrate with the server's default, then pick up the stored choice
+  useEffect(() => setPreferenceState(readPreference()), []);
+
+  const setPreference = (next: ThemePreference) => {
+    setPreferenceState(next);
+    try {
+      if (next === 'system') localStorage.removeItem(STORAGE_KEY);
+      else localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Storage can be unavailable in private modes; the choice lasts for the session
+    }
+  };
+
+  // Layout effect so the variables are in place before the first paint. While
+  // hydrating, the inline boot script has already applied the visitor's theme.
+  useLayoutEffect(() => {
+    if (isHydrating()) return;
+    const root = document.documentElement;
+    Object.entries(themeVariables(resolveColors(mode, palette))).forEach(([name, value]) =>
+      root.style.setProperty(name, value)
+    );
+    root.style.colorScheme = mode;
+    root.dataset.theme = mode;
+    root.dataset.palette = palette;
+  }, [mode, palette]);
+
+  return <ThemeContext.Provider value={{ preference, setPreference, mode, palette }}>{children}</ThemeContext.Provider>;
+};
+
+export const useTheme = () => useContext(ThemeContext);
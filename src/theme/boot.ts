@@ -0,0 +1,31 @@
+// Inline script for pre-rendered pages: applies the stored or OS theme before
+// the first paint, mirroring ThemeProvider, so light-theme visitors never see
+// the dark defaults flash while the bundle loads
+import { STORAGE_KEY, PALETTE_KEY, buildPalette } from './ThemeProvider';
+import { palettes, themeModes, resolveColors, themeVariables, type PaletteName } from './tokens';
+
+export const themeBootScript = () => {
+  const variables = Object.fromEntries(
+    themeModes.map((mode) => [
+      mode,
+      Object.fromEntries(
+        (Object.keys(palettes) as PaletteName[]).map((palette) => [palette, themeVariables(resolveColors(mode, palette))])
+      ),
+    ])
+  );
+
+  return `(function () {
+  try {
+    var themes = ${JSON.stringify(variables)};
+    var stored = localStorage.getItem(${JSON.stringify(STORAGE_KEY)});
+    var mode = stored === 'light' || stored === 'dark' ? stored : matchMedia('(prefers-color-scheme: light)').matches ? 'light' : 'dark';
+    var palette = new URLSearchParams(location.search).get('palette') || localStorage.getItem(${JSON.stringify(PALETTE_KEY)});
+    if (!themes[mode][palette]) palette = ${JSON.stringify(buildPalette)};
+    var root = document.documentElement;
+    for (var name in themes[mode][palette]) root.style.setProperty(name, themes[mode][palette][name]);
+    root.style.colorScheme = mode;
+    root.dataset.theme = mode;
+    root.dataset.palette = palette;
+  } catch (error) {}
+})();`;
+};
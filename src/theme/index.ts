@@ -0,0 +1,3 @@
+export { ThemeProvider, useTheme, type ThemePreference } from './ThemeProvider';
+export * from './tokens';
+export { themeBootScript } from './boot';
@@ -0,0 +1,90 @@
+// Design tokens: the single source of the site's colours. Components use the
+// Tailwind colour names below (bg-canvas, text-accent, ...), which resolve to
+// CSS variables set by ThemeProvider for the active theme and brand palette.
+
+export const colorTokens = ['canvas', 'surface', 'line', 'ink', 'muted', 'soft', 'accent', 'on-accent', 'danger'] as const;
+
+export type ColorToken = (typeof colorTokens)[number];
+export type ThemeColors = Record<ColorToken, string>;
+
+export const themeModes = ['dark', 'light'] as const;
+export type ThemeMode = (typeof themeModes)[number];
+
+type Neutrals = Omit<ThemeColors, 'accent' | 'on-accent'>;
+type Accent = Pick<ThemeColors, 'accent' | 'on-accent'>;
+
+// Backgrounds, borders and text; shared by every palette
+const neutrals: Record<ThemeMode, Neutrals> = {
+  dark: {
+    canvas: '#0a0a0a',
+    surface: '#0f0f0f',
+    line: '#252525',
+    ink: '#f5f0e8',
+    muted: '#6b6b6b',
+    soft: '#a0a0a0',
+    danger: '#b5564a',
+  },
+  light: {
+    canvas: '#f7f4ee',
+    surface: '#efe9df',
+    line: '#dcd4c6',
+    ink: '#141414',
+    muted: '#66625b',
+    soft: '#3f3b35',
+    danger: '#a3412f',
+  },
+};
+
+// Brand palettes only swap the accent, so white-label demos keep the same
+// contrast guarantees. Light accents are darker to stay readable as text.
+export interface BrandPalette {
+  label: string;
+  modes: Record<ThemeMode, Accent>;
+}
+
+export const palettes = {
+  nexus: {
+    label: 'Nexus Gold',
+    modes: {
+      dark: { accent: '#c9a962', 'on-accent': '#0a0a0a' },
+      light: { accent: '#8a6a24', 'on-accent': '#f7f4ee' },
+    },
+  },
+  meridian: {
+    label: 'Meridian Blue',
+    modes: {
+      dark: { accent: '#7aa2f7', 'on-accent': '#0a0a0a' },
+      light: { accent: '#2a56b8', 'on-accent': '#f7f4ee' },
+    },
+  },
+  verdant: {
+    label: 'Verdant',
+    modes: {
+      dark: { accent: '#6ebe96', 'on-accent': '#0a0a0a' },
+      light: { accent: '#1f7a50', 'on-accent': '#f7f4ee' },
+    },
+  },
+} satisfies Record<string, BrandPalette>;
+
+export type PaletteName = keyof typeof palettes;
+
+export const defaultPalette: PaletteName = 'nexus';
+
+export const isPalette = (value: string | null | undefined): value is PaletteName =>
+  !!value && Object.prototype.hasOwnProperty.call(palettes, value);
+
+export const resolveColors = (mode: ThemeMode, palette: PaletteName = defaultPalette): ThemeColors => ({
+  ...neutrals[mode],
+  ...palettes[palette].modes[mode],
+});
+
+export const cssVariable = (token: ColorToken) => `--color-${token}`;
+
+// '#c9a962' -> '201 169 98', the form Tailwind's <alpha-value> expects
+export const toChannels = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [value >> 16, (value >> 8) & 255, value & 255].join(' ');
+};
+
+export const themeVariables = (colors: ThemeColors): Record<string, string> =>
+  Object.fromEntries(colorTokens.map((token) => [cssVariable(token), toChannels(colors[token])]));
@@ -0,0 +1,23 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_CONSULTATION_ENDPOINT?: string;
+  readonly VITE_STATS_ENDPOINT?: string;
+  readonly VITE_BRAND_PALETTE?: string;
+  readonly VITE_SITE_URL?: string;
+  readonly VITE_ANALYTICS_ENDPOINT?: string;
+  readonly VITE_ASSISTANT_ENDPOINT?: string;
+  readonly VITE_BOOKING_AVAILABILITY_URL?: string;
+  readonly VITE_BOOKING_ENDPOINT?: string;
+  readonly VITE_CMS_PREVIEW_ENDPOINT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// Entries published in the CMS at build time, provided by plugins/cms.ts
+declare module 'virtual:nexus-cms' {
+  const published: import('./cms/types').CmsSnapshot;
+  export default published;
+}
@@ -0,0 +1,26 @@
+import type { Config } from 'tailwindcss';
+import plugin from 'tailwindcss/plugin';
+import { colorTokens, cssVariable, resolveColors, themeVariables } from './src/theme/tokens';
+
+// Colour names resolve to the CSS variables ThemeProvider sets for the active
+// theme and palette; channels let opacity modifiers (bg-accent/10) work
+const colors = Object.fromEntries(
+  colorTokens.map((token) => [token, `rgb(var(${cssVariable(token)}) / <alpha-value>)`])
+);
+
+export default {
+  content: ['./index.html', './src/**/*.{ts,tsx}'],
+  theme: {
+    extend: {
+      colors,
+      fontFamily: {
+        cormorant: ['"Cormorant Garamond"', 'Georgia', 'serif'],
+        outfit: ['Outfit', 'system-ui', 'sans-serif'],
+      },
+    },
+  },
+  plugins: [
+    // Default dark values so the first paint is styled before ThemeProvider runs
+    plugin(({ addBase }) => addBase({ ':root': themeVariables(resolveColors('dark')) })),
+  ],
+} satisfies Config;
@@ -1,6 +1,38 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import tailwindcss from 'tailwindcss'
+import autoprefixer from 'autoprefixer'
+import tailwindConfig from './tailwind.config'
+import { contentValidation } from './plugins/content'
+import { translationCheck } from './plugins/i18n'
+import { fontPreload } from './plugins/fonts'
+import { prerender } from './plugins/prerender'
+import { insights } from './plugins/insights'
+import { cms } from './plugins/cms'
+import { pwa } from './plugins/pwa'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    contentValidation(),
+    translationCheck(),
+    insights(),
+    cms(),
+    // Regular weights carry the hero and body copy; the rest load on demand
+    fontPreload([/cormorant-garamond-latin-400-(normal|italic)/, /outfit-latin-400-normal/]),
+    prerender(),
+    pwa(),
+  ],
+  css: {
+    postcss: {
+      plugins: [tailwindcss(tailwindConfig), autoprefixer()],
+    },
+  },
+  // Unit, interaction and accessibility tests
+  test: {
+    environment: 'jsdom',
+    include: ['src/**/*.test.{ts,tsx}'],
+    setupFiles: ['src/test/setup.ts'],
+  },
 })